@@ -0,0 +1,90 @@
+import * as vscode from 'vscode';
+
+/** Linha que inicia uma célula ("# %%", opcionalmente seguida de um título) */
+const CELL_MARKER = /^\s*#\s*%%/;
+
+/**
+ * Trecho de um arquivo Python delimitado por marcadores `# %%`
+ */
+export interface CodeCell {
+    /** Linhas da célula, incluindo o marcador */
+    range: vscode.Range;
+    /** Título após o marcador, se houver */
+    title?: string;
+}
+
+/**
+ * Divide o documento em células; sem marcadores não há células
+ *
+ * O código antes do primeiro marcador forma uma célula própria se não estiver vazio.
+ */
+export function findCells(document: vscode.TextDocument): CodeCell[] {
+    const markers: number[] = [];
+    for (let line = 0; line < document.lineCount; line++) {
+        if (CELL_MARKER.test(document.lineAt(line).text)) {
+            markers.push(line);
+        }
+    }
+    if (markers.length === 0) {
+        return [];
+    }
+
+    const starts = markers[0] > 0 && hasCode(document, 0, markers[0] - 1) ? [0, ...markers] : markers;
+    return starts.map((start, index) => {
+        const end = index + 1 < starts.length ? starts[index + 1] - 1 : document.lineCount - 1;
+        const title = document.lineAt(start).text.replace(CELL_MARKER, '').trim();
+        return {
+            range: new vscode.Range(start, 0, end, document.lineAt(end).text.length),
+            title: markers.includes(start) && title ? title : undefined
+        };
+    });
+}
+
+/**
+ * Célula que contém a linha informada
+ */
+export function cellAt(document: vscode.TextDocument, line: number): CodeCell | undefined {
+    return findCells(document).find(cell => cell.range.start.line <= line && line <= cell.range.end.line);
+}
+
+/**
+ * Remove a indentação comum, para que um bloco selecionado dentro de uma função execute sozinho
+ */
+export function dedent(code: string): string {
+    const lines = code.split(/\r?\n/);
+    const indents = lines
+        .filter(line => line.trim().length > 0)
+        .map(line => line.match(/^[ \t]*/)![0].length);
+    const common = indents.length > 0 ? Math.min(...indents) : 0;
+    return lines.map(line => line.substring(Math.min(common, line.match(/^[ \t]*/)![0].length))).join('\n');
+}
+
+function hasCode(document: vscode.TextDocument, startLine: number, endLine: number): boolean {
+    for (let line = startLine; line <= endLine; line++) {
+        const text = document.lineAt(line).text.trim();
+        if (text && !text.startsWith('#')) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * CodeLens "Executar célula no dispositivo" acima de cada célula `# %%`
+ *
+ * Problema: Executar um trecho de um arquivo exigia selecioná-lo manualmente a cada vez
+ * Solução: Marca o início de cada célula com um atalho para `micropython-manager.runCell`
+ * Exemplo: Um arquivo com três marcadores `# %%` mostra três links clicáveis
+ */
+export class CellCodeLensProvider implements vscode.CodeLensProvider {
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        return findCells(document).map(cell => new vscode.CodeLens(
+            new vscode.Range(cell.range.start, cell.range.start),
+            {
+                title: '$(play) Executar célula no dispositivo',
+                command: 'micropython-manager.runCell',
+                arguments: [document.uri, cell.range.start.line]
+            }
+        ));
+    }
+}
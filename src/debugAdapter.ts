@@ -0,0 +1,618 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DeviceManager } from './deviceManager';
+import { REPLManager } from './replManager';
+import { CommandOutputChunk } from './types';
+import { findProjectFiles, resolveConnectedDevice, toRemotePath } from './projectFiles';
+
+/** Tipo de depuração registrado no package.json */
+export const MICROPYTHON_DEBUG_TYPE = 'micropython';
+
+/** O programa pode ficar parado em um breakpoint por tempo indeterminado (máximo aceito por setTimeout) */
+const PROGRAM_IDLE_TIMEOUT_MS = 0x7fffffff;
+
+/** Espera para a placa reiniciar após o soft reset */
+const SOFT_RESET_DELAY_MS = 1000;
+
+/** Caractere que inicia uma linha de parada emitida pelo tracer (seguido de JSON) */
+const TRACE_MARKER = '\x1e';
+
+/** Nome de módulo aceito em `entry` (vai para um `import` no código enviado à placa) */
+const MODULE_NAME = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/;
+
+/** O MicroPython roda uma única thread de usuário */
+const THREAD_ID = 1;
+
+/** Única variablesReference: os frames do MicroPython não expõem variáveis locais */
+const GLOBALS_REFERENCE = 1;
+
+/**
+ * Tracer instalado com `sys.settrace` quando o firmware oferece suporte
+ *
+ * Em cada parada imprime `TRACE_MARKER` + JSON com os frames e as globais do módulo
+ * e lê do stdin o próximo comando: `c` (continuar), `n` (próxima linha), `s` (entrar)
+ * ou `o` (sair), opcionalmente seguido do JSON atualizado dos breakpoints.
+ */
+const TRACER_SOURCE = `
+import sys, json
+
+def _mpm_load(data):
+    return {k: set(v) for k, v in json.loads(data).items()}
+
+def _mpm_stop(frame, reason):
+    global _mpm_mode, _mpm_target, _mpm_bp
+    frames = []
+    f = frame
+    while f:
+        if f.f_code.co_filename != '<stdin>':
+            frames.append((f.f_code.co_filename, f.f_lineno, f.f_code.co_name))
+        f = f.f_back
+    names = {}
+    for k, v in frame.f_globals.items():
+        if k.startswith('_') or type(v) in (type(sys), type(_mpm_stop)) or isinstance(v, type):
+            continue
+        try:
+            names[k] = repr(v)[:200]
+        except Exception:
+            names[k] = '?'
+    print('${TRACE_MARKER}' + json.dumps({'reason': reason, 'frames': frames, 'globals': names}))
+    command, _, data = sys.stdin.readline().strip().partition(' ')
+    if data:
+        _mpm_bp = _mpm_load(data)
+    _mpm_mode = {'n': 'over', 's': 'in', 'o': 'out'}.get(command, 'run')
+    _mpm_target = _mpm_depth
+
+def _mpm_trace(frame, event, arg):
+    global _mpm_depth
+    if event == 'call':
+        _mpm_depth += 1
+    elif event == 'return':
+        _mpm_depth -= 1
+    elif event == 'line' and frame.f_code.co_filename != '<stdin>':
+        if frame.f_lineno in _mpm_bp.get(frame.f_code.co_filename, ()):
+            _mpm_stop(frame, 'breakpoint')
+        elif _mpm_mode in ('entry', 'in') or (_mpm_mode == 'over' and _mpm_depth <= _mpm_target) or (_mpm_mode == 'out' and _mpm_depth < _mpm_target):
+            _mpm_stop(frame, 'entry' if _mpm_mode == 'entry' else 'step')
+    return _mpm_trace
+`;
+
+/**
+ * Atributos de uma configuração `"type": "micropython"` do launch.json
+ */
+export interface MicroPythonLaunchConfiguration extends vscode.DebugConfiguration {
+    /** ID, nome ou porta do dispositivo; sem ele, pergunta entre os conectados */
+    device?: string;
+    /** Pasta base dos globs de `files` (padrão: pasta do workspace) */
+    cwd?: string;
+    /** Globs dos arquivos enviados antes de executar (ex.: `["*.py", "lib/**"]`) */
+    files?: string[];
+    /** Pasta do dispositivo que corresponde a `cwd` (padrão: `/`) */
+    remoteRoot?: string;
+    /** Módulo importado para iniciar o programa (ex.: `main`) */
+    entry: string;
+    /** Soft reset (Ctrl+D) após o upload, para começar com a memória limpa */
+    softReset?: boolean;
+    /** Para na primeira linha do módulo de entrada (requer `sys.settrace`) */
+    stopOnEntry?: boolean;
+}
+
+/** Parada reportada pelo tracer */
+interface TraceStop {
+    reason: 'breakpoint' | 'step' | 'entry';
+    /** [arquivo no dispositivo, linha, função], do frame atual para fora */
+    frames: [string, number, string][];
+    globals: Record<string, string>;
+}
+
+/** Mensagens do Debug Adapter Protocol usadas aqui */
+interface DapRequest {
+    seq: number;
+    type: 'request';
+    command: string;
+    /** Formato depende de `command`; validado por `launchArguments`, `breakpointArguments`... */
+    arguments?: unknown;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Valida os argumentos de `launch` (a configuração já resolvida do launch.json)
+ */
+function launchArguments(args: Record<string, unknown>): MicroPythonLaunchConfiguration {
+    const optionalString = (key: string) => {
+        if (args[key] !== undefined && typeof args[key] !== 'string') {
+            throw new Error(`"${key}" deve ser um texto na configuração de launch`);
+        }
+        return args[key] as string | undefined;
+    };
+    const optionalBoolean = (key: string) => {
+        if (args[key] !== undefined && typeof args[key] !== 'boolean') {
+            throw new Error(`"${key}" deve ser true ou false na configuração de launch`);
+        }
+        return args[key] as boolean | undefined;
+    };
+
+    const entry = optionalString('entry');
+    if (!entry) {
+        throw new Error('Configuração MicroPython sem "entry" (módulo a executar)');
+    }
+    if (!MODULE_NAME.test(entry)) {
+        throw new Error(`"entry" deve ser um nome de módulo (ex.: main ou app.server), não ${JSON.stringify(entry)}`);
+    }
+
+    const files = args.files;
+    if (files !== undefined && !(Array.isArray(files) && files.every(file => typeof file === 'string'))) {
+        throw new Error('"files" deve ser uma lista de globs na configuração de launch');
+    }
+
+    return {
+        type: MICROPYTHON_DEBUG_TYPE,
+        request: 'launch',
+        name: optionalString('name') || MICROPYTHON_DEBUG_TYPE,
+        device: optionalString('device'),
+        cwd: optionalString('cwd'),
+        files: files as string[] | undefined,
+        remoteRoot: optionalString('remoteRoot'),
+        entry,
+        softReset: optionalBoolean('softReset'),
+        stopOnEntry: optionalBoolean('stopOnEntry')
+    };
+}
+
+/**
+ * Caminho do arquivo e linhas de `setBreakpoints`; entradas sem linha numérica são ignoradas
+ */
+function breakpointArguments(args: Record<string, unknown>): { sourcePath?: string, breakpoints: { line: number }[] } {
+    const sourcePath = isRecord(args.source) && typeof args.source.path === 'string' ? args.source.path : undefined;
+    const breakpoints = Array.isArray(args.breakpoints)
+        ? args.breakpoints.filter((breakpoint): breakpoint is { line: number } => isRecord(breakpoint) && typeof breakpoint.line === 'number')
+        : [];
+    return { sourcePath, breakpoints };
+}
+
+/**
+ * Completa e valida configurações de depuração `micropython`
+ *
+ * Problema: F5 sem launch.json ou sem `device` não diria em qual placa executar
+ * Solução: Gera uma configuração para o arquivo ativo e resolve o dispositivo entre os conectados
+ * Exemplo: Com uma única placa conectada, F5 em main.py envia os .py do workspace e importa `main`
+ */
+export class MicroPythonDebugConfigurationProvider implements vscode.DebugConfigurationProvider {
+    constructor(private deviceManager: DeviceManager) {}
+
+    provideDebugConfigurations(): vscode.DebugConfiguration[] {
+        return [{
+            type: MICROPYTHON_DEBUG_TYPE,
+            request: 'launch',
+            name: 'MicroPython: executar main no dispositivo',
+            files: ['**/*.py'],
+            entry: 'main',
+            softReset: false
+        }];
+    }
+
+    async resolveDebugConfiguration(
+        folder: vscode.WorkspaceFolder | undefined,
+        config: vscode.DebugConfiguration
+    ): Promise<vscode.DebugConfiguration | undefined> {
+        // F5 sem launch.json: executa o arquivo Python ativo
+        if (!config.type && !config.request && !config.name) {
+            const document = vscode.window.activeTextEditor?.document;
+            if (document?.languageId !== 'python') {
+                return undefined;
+            }
+            config.type = MICROPYTHON_DEBUG_TYPE;
+            config.request = 'launch';
+            config.name = `MicroPython: ${path.basename(document.fileName)}`;
+            config.files = [path.basename(document.fileName)];
+            config.cwd = path.dirname(document.fileName);
+            config.entry = path.basename(document.fileName, '.py');
+        }
+
+        if (!config.entry) {
+            vscode.window.showErrorMessage('Configuração MicroPython sem "entry" (módulo a executar)');
+            return undefined;
+        }
+        if (typeof config.entry !== 'string' || !MODULE_NAME.test(config.entry)) {
+            vscode.window.showErrorMessage(`"entry" deve ser um nome de módulo (ex.: main ou app.server), não ${JSON.stringify(config.entry)}`);
+            return undefined;
+        }
+
+        config.cwd = config.cwd || folder?.uri.fsPath || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+
+        const device = await resolveConnectedDevice(this.deviceManager, config.device, 'Selecione o dispositivo para executar o programa');
+        if (!device) {
+            return undefined;
+        }
+        config.device = device.id;
+        return config;
+    }
+}
+
+/**
+ * Cria uma sessão de depuração em processo para cada launch `micropython`
+ */
+export class MicroPythonDebugAdapterFactory implements vscode.DebugAdapterDescriptorFactory {
+    constructor(private deviceManager: DeviceManager, private replManager: REPLManager) {}
+
+    createDebugAdapterDescriptor(): vscode.DebugAdapterDescriptor {
+        return new vscode.DebugAdapterInlineImplementation(new MicroPythonDebugSession(this.deviceManager, this.replManager));
+    }
+}
+
+/**
+ * Debug adapter (DAP) que executa um programa na placa
+ *
+ * Problema: Rodar um projeto exigia upload manual, reset e leitura da saída no canal do dispositivo
+ * Solução: O launch envia os arquivos de `files`, opcionalmente faz soft reset e importa `entry` via
+ *          `REPLManager.executeScript`, com a saída no Debug Console; parar a sessão envia Ctrl+C.
+ *          Se o firmware tem `sys.settrace`, um tracer no dispositivo implementa breakpoints,
+ *          passos e a inspeção das globais do módulo
+ * Exemplo: Um breakpoint na linha 12 do main.py local para a placa quando ela chega nessa linha
+ */
+class MicroPythonDebugSession implements vscode.DebugAdapter {
+    private _onDidSendMessage = new vscode.EventEmitter<vscode.DebugProtocolMessage>();
+    readonly onDidSendMessage: vscode.Event<vscode.DebugProtocolMessage> = this._onDidSendMessage.event;
+
+    private seq = 1;
+    private deviceId: string | undefined;
+    private cancellation = new vscode.CancellationTokenSource();
+    private running = false;
+    private traceSupported = false;
+    // Caminho remoto de cada arquivo local enviado no launch
+    private remotePaths: Map<string, string> = new Map();
+    // Linhas dos breakpoints por arquivo local
+    private breakpoints: Map<string, number[]> = new Map();
+    private stopped: TraceStop | undefined;
+    private stdoutBuffer = '';
+    private configurationDone!: () => void;
+    private configured = new Promise<void>(resolve => this.configurationDone = resolve);
+
+    constructor(private deviceManager: DeviceManager, private replManager: REPLManager) {}
+
+    handleMessage(message: vscode.DebugProtocolMessage): void {
+        const request = message as DapRequest;
+        if (request.type !== 'request') {
+            return;
+        }
+
+        this.dispatch(request).catch(error => {
+            const message = error instanceof vscode.CancellationError
+                ? 'Sessão encerrada'
+                : error instanceof Error ? error.message : String(error);
+            this.sendErrorResponse(request, message);
+        });
+    }
+
+    dispose(): void {
+        this.cancellation.cancel();
+        this.cancellation.dispose();
+        this._onDidSendMessage.dispose();
+    }
+
+    private async dispatch(request: DapRequest): Promise<void> {
+        const args = isRecord(request.arguments) ? request.arguments : {};
+
+        switch (request.command) {
+            case 'initialize':
+                this.sendResponse(request, {
+                    supportsConfigurationDoneRequest: true,
+                    supportsTerminateRequest: true
+                });
+                return;
+
+            case 'launch':
+                await this.launch(request, launchArguments(args));
+                return;
+
+            case 'setBreakpoints': {
+                const { sourcePath, breakpoints } = breakpointArguments(args);
+                this.sendResponse(request, { breakpoints: this.setBreakpoints(sourcePath, breakpoints) });
+                return;
+            }
+
+            case 'setExceptionBreakpoints':
+                this.sendResponse(request);
+                return;
+
+            case 'configurationDone':
+                this.configurationDone();
+                this.sendResponse(request);
+                return;
+
+            case 'threads': {
+                const device = this.deviceId ? this.deviceManager.getDevice(this.deviceId) : undefined;
+                this.sendResponse(request, { threads: [{ id: THREAD_ID, name: device?.name || 'MicroPython' }] });
+                return;
+            }
+
+            case 'stackTrace': {
+                const frames = (this.stopped?.frames || []).map(([file, line, name], index) => {
+                    const localPath = this.deviceId ? this.deviceManager.getUploadSource(this.deviceId, file) : undefined;
+                    return {
+                        id: index,
+                        name: name || '<module>',
+                        line,
+                        column: 1,
+                        source: localPath ? { name: path.basename(localPath), path: localPath } : { name: file }
+                    };
+                });
+                this.sendResponse(request, { stackFrames: frames, totalFrames: frames.length });
+                return;
+            }
+
+            case 'scopes':
+                this.sendResponse(request, {
+                    scopes: [{ name: 'Globais', variablesReference: GLOBALS_REFERENCE, expensive: false }]
+                });
+                return;
+
+            case 'variables': {
+                const globals = args.variablesReference === GLOBALS_REFERENCE ? this.stopped?.globals || {} : {};
+                this.sendResponse(request, {
+                    variables: Object.entries(globals).map(([name, value]) => ({ name, value, variablesReference: 0 }))
+                });
+                return;
+            }
+
+            case 'continue':
+                await this.resume('c');
+                this.sendResponse(request, { allThreadsContinued: true });
+                return;
+
+            case 'next':
+                await this.resume('n');
+                this.sendResponse(request);
+                return;
+
+            case 'stepIn':
+                await this.resume('s');
+                this.sendResponse(request);
+                return;
+
+            case 'stepOut':
+                await this.resume('o');
+                this.sendResponse(request);
+                return;
+
+            case 'terminate':
+            case 'disconnect':
+                this.stop();
+                this.sendResponse(request);
+                return;
+
+            default:
+                this.sendErrorResponse(request, `Requisição "${request.command}" não suportada pelo depurador MicroPython`);
+        }
+    }
+
+    /**
+     * Upload, soft reset opcional e detecção de `sys.settrace`; o programa começa após `configurationDone`
+     */
+    private async launch(request: DapRequest, config: MicroPythonLaunchConfiguration): Promise<void> {
+        const token = this.cancellation.token;
+        const deviceId = config.device;
+        if (!deviceId || !this.deviceManager.getDevice(deviceId)?.isConnected) {
+            throw new Error('Dispositivo não conectado');
+        }
+        this.deviceId = deviceId;
+
+        const files = config.files?.length && config.cwd ? await findProjectFiles(config.cwd, config.files) : [];
+        for (const localPath of files) {
+            const remotePath = toRemotePath(config.cwd!, localPath, config.remoteRoot);
+            this.sendOutput('console', `Enviando ${remotePath}...\n`);
+            await this.deviceManager.uploadFile(deviceId, localPath, remotePath, token);
+            this.remotePaths.set(path.resolve(localPath), remotePath);
+        }
+
+        if (config.softReset) {
+            this.sendOutput('console', 'Soft reset (Ctrl+D)...\n');
+            await this.deviceManager.resetDevice(deviceId, token);
+            await new Promise(resolve => setTimeout(resolve, SOFT_RESET_DELAY_MS));
+        }
+
+        const check = await this.deviceManager.executeCommand(
+            deviceId, 'import sys\nprint(hasattr(sys, "settrace"))', undefined, token
+        );
+        this.traceSupported = check.stdout.trim() === 'True';
+        if (!this.traceSupported) {
+            this.sendOutput('console', 'Firmware sem sys.settrace: breakpoints e passos desativados.\n');
+        }
+
+        // Breakpoints e demais configurações chegam após o evento "initialized"
+        this.sendEvent('initialized');
+        await this.configured;
+        if (token.isCancellationRequested) {
+            throw new vscode.CancellationError();
+        }
+
+        this.sendResponse(request);
+        this.run(config);
+    }
+
+    /**
+     * Importa o módulo de entrada e encerra a sessão quando o programa termina
+     */
+    private async run(config: MicroPythonLaunchConfiguration): Promise<void> {
+        this.running = true;
+        let exitCode = 0;
+
+        try {
+            const result = await this.replManager.executeScript(
+                this.deviceId!,
+                this.buildRunner(config),
+                config.entry,
+                undefined,
+                {
+                    token: this.cancellation.token,
+                    timeoutMs: PROGRAM_IDLE_TIMEOUT_MS,
+                    onOutput: chunk => this.handleOutput(chunk)
+                }
+            );
+            exitCode = result.exception ? 1 : 0;
+        } catch (error) {
+            if (!(error instanceof vscode.CancellationError)) {
+                this.sendOutput('stderr', `${error}\n`);
+                exitCode = 1;
+            }
+        }
+
+        if (this.stdoutBuffer) {
+            this.sendOutput('stdout', this.stdoutBuffer);
+            this.stdoutBuffer = '';
+        }
+        this.running = false;
+        this.sendEvent('exited', { exitCode });
+        this.sendEvent('terminated');
+    }
+
+    /**
+     * Código enviado ao raw REPL: descarta o módulo já importado e o importa de novo,
+     * com o tracer ativo quando disponível
+     */
+    private buildRunner(config: MicroPythonLaunchConfiguration): string {
+        const entry = JSON.stringify(config.entry);
+        if (!this.traceSupported) {
+            return `import sys\nsys.modules.pop(${entry}, None)\nimport ${config.entry}\n`;
+        }
+
+        return `${TRACER_SOURCE}
+_mpm_bp = _mpm_load(${JSON.stringify(this.breakpointsJson())})
+_mpm_mode = ${config.stopOnEntry ? "'entry'" : "'run'"}
+_mpm_depth = 0
+_mpm_target = 0
+sys.modules.pop(${entry}, None)
+sys.settrace(_mpm_trace)
+try:
+    import ${config.entry}
+finally:
+    sys.settrace(None)
+`;
+    }
+
+    /**
+     * Separa as paradas do tracer da saída do programa
+     */
+    private handleOutput(chunk: CommandOutputChunk): void {
+        if (chunk.stream === 'stderr') {
+            this.sendOutput('stderr', chunk.text);
+            return;
+        }
+
+        this.stdoutBuffer += chunk.text;
+        while (this.stdoutBuffer) {
+            const marker = this.stdoutBuffer.indexOf(TRACE_MARKER);
+            if (marker !== 0) {
+                const end = marker === -1 ? this.stdoutBuffer.length : marker;
+                this.sendOutput('stdout', this.stdoutBuffer.substring(0, end));
+                this.stdoutBuffer = this.stdoutBuffer.substring(end);
+                continue;
+            }
+
+            // Linha de parada incompleta: aguarda o restante
+            const lineEnd = this.stdoutBuffer.indexOf('\n');
+            if (lineEnd === -1) {
+                return;
+            }
+            const line = this.stdoutBuffer.substring(TRACE_MARKER.length, lineEnd).trim();
+            this.stdoutBuffer = this.stdoutBuffer.substring(lineEnd + 1);
+
+            try {
+                this.stopped = JSON.parse(line) as TraceStop;
+            } catch {
+                this.sendOutput('stdout', line + '\n');
+                continue;
+            }
+            this.sendEvent('stopped', { reason: this.stopped.reason, threadId: THREAD_ID, allThreadsStopped: true });
+        }
+    }
+
+    /**
+     * Responde ao tracer parado; os breakpoints vão junto, já que podem ter mudado durante a execução
+     */
+    private async resume(command: 'c' | 'n' | 's' | 'o'): Promise<void> {
+        if (!this.stopped || !this.deviceId) {
+            throw new Error('O programa não está parado');
+        }
+
+        this.stopped = undefined;
+        await this.deviceManager.writeToProgram(this.deviceId, `${command} ${this.breakpointsJson()}\n`);
+    }
+
+    /**
+     * Encerra a sessão: cancelar o token interrompe o programa com Ctrl+C
+     */
+    private stop(): void {
+        this.cancellation.cancel();
+        this.configurationDone();
+        if (!this.running) {
+            this.sendEvent('terminated');
+        }
+    }
+
+    private setBreakpoints(sourcePath: string | undefined, requested: { line: number }[]): object[] {
+        const localPath = sourcePath ? path.resolve(sourcePath) : undefined;
+        if (localPath) {
+            this.breakpoints.set(localPath, requested.map(breakpoint => breakpoint.line));
+        }
+
+        const uploaded = localPath !== undefined && this.remotePaths.has(localPath);
+        const message = !this.traceSupported
+            ? 'Firmware sem sys.settrace'
+            : uploaded ? undefined : 'Arquivo não enviado por esta configuração de launch';
+        return requested.map(breakpoint => ({
+            verified: this.traceSupported && uploaded,
+            line: breakpoint.line,
+            message
+        }));
+    }
+
+    /**
+     * Breakpoints por caminho remoto, com e sem "/" inicial (como aparecem em `co_filename`)
+     */
+    private breakpointsJson(): string {
+        const byRemote: Record<string, number[]> = {};
+        this.breakpoints.forEach((lines, localPath) => {
+            const remotePath = this.remotePaths.get(localPath);
+            if (remotePath && lines.length > 0) {
+                byRemote[remotePath] = lines;
+                byRemote[remotePath.substring(1)] = lines;
+            }
+        });
+        return JSON.stringify(byRemote);
+    }
+
+    private sendOutput(category: 'console' | 'stdout' | 'stderr', output: string): void {
+        if (output) {
+            this.sendEvent('output', { category, output });
+        }
+    }
+
+    private sendResponse(request: DapRequest, body?: object): void {
+        this._onDidSendMessage.fire({
+            seq: this.seq++,
+            type: 'response',
+            request_seq: request.seq,
+            command: request.command,
+            success: true,
+            body
+        });
+    }
+
+    private sendErrorResponse(request: DapRequest, message: string): void {
+        this._onDidSendMessage.fire({
+            seq: this.seq++,
+            type: 'response',
+            request_seq: request.seq,
+            command: request.command,
+            success: false,
+            message
+        });
+    }
+
+    private sendEvent(event: string, body?: object): void {
+        this._onDidSendMessage.fire({ seq: this.seq++, type: 'event', event, body });
+    }
+}
@@ -0,0 +1,217 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { DeviceManager } from './deviceManager';
+import { DeviceInfo, ESP32Device } from './types';
+
+/**
+ * Formata bytes em B, KB ou MB
+ */
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    if (bytes < 1024 * 1024) {
+        return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+/**
+ * Formata uma duração como "2 d 3 h 4 min" ou "5 min 12 s"
+ */
+export function formatDuration(ms: number): string {
+    const seconds = Math.floor(ms / 1000);
+    const parts: [number, string][] = [
+        [Math.floor(seconds / 86400), 'd'],
+        [Math.floor(seconds / 3600) % 24, 'h'],
+        [Math.floor(seconds / 60) % 60, 'min'],
+        [seconds % 60, 's']
+    ];
+    const first = parts.findIndex(([value]) => value > 0);
+    if (first === -1) {
+        return '0 s';
+    }
+    return parts.slice(first, first + 3).map(([value, unit]) => `${value} ${unit}`).join(' ');
+}
+
+/**
+ * Linhas (rótulo, valor) das informações do dispositivo, usadas no painel e no tooltip da árvore
+ */
+export function describeDeviceInfo(info: DeviceInfo): [string, string][] {
+    const { implementation, memory, filesystem } = info;
+    const rows: [string, string][] = [
+        ['Firmware', `${implementation.name} ${implementation.version}` + (implementation.mpy !== undefined ? ` (mpy ${implementation.mpy & 0xff})` : '')]
+    ];
+
+    const board = implementation.machine || info.machine;
+    if (board) {
+        rows.push(['Placa', board]);
+    }
+    if (info.release) {
+        rows.push(['Release', info.release]);
+    }
+    if (info.uniqueId) {
+        rows.push(['ID único', info.uniqueId]);
+    }
+    if (info.cpuFrequency) {
+        rows.push(['CPU', `${Math.round(info.cpuFrequency / 1e6)} MHz`]);
+    }
+    if (info.flashSize) {
+        rows.push(['Flash', formatBytes(info.flashSize)]);
+    }
+    if (filesystem) {
+        rows.push(['Sistema de arquivos', `${formatBytes(filesystem.free)} livres de ${formatBytes(filesystem.total)}`]);
+    }
+    rows.push(['Heap', `${formatBytes(memory.free)} livres, ${formatBytes(memory.allocated)} alocados`]);
+    if (info.uptimeMs !== undefined) {
+        rows.push(['Tempo ligado', formatDuration(info.uptimeMs)]);
+    }
+    rows.push(['Lido em', info.readAt.toLocaleString()]);
+    return rows;
+}
+
+/**
+ * Painel (webview) com as informações de cada dispositivo
+ *
+ * Problema: Versão, memória, flash e CPU ficavam espalhados entre comandos e canais de saída
+ * Solução: Um painel por dispositivo renderiza `getDeviceInfo`, com barras de uso do heap e do
+ *          sistema de arquivos e um botão para ler de novo
+ * Exemplo: "Abrir Painel" no menu da placa mostra "CPU 240 MHz", "Flash 4.00 MB" e o tempo ligado
+ */
+export class DeviceDashboard implements vscode.Disposable {
+    private panels: Map<string, vscode.WebviewPanel> = new Map();
+    // Dispositivos com leitura em andamento ou que falharam (mensagem de erro)
+    private loading: Set<string> = new Set();
+    private errors: Map<string, string> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private deviceManager: DeviceManager) {
+        this.disposables.push(
+            deviceManager.onDidChangeInfo(device => this.render(device.id)),
+            deviceManager.onDidDisconnect(device => this.panels.get(device.id)?.dispose())
+        );
+    }
+
+    /**
+     * Abre (ou traz para frente) o painel do dispositivo e atualiza as informações
+     */
+    async show(deviceId: string): Promise<void> {
+        const device = this.deviceManager.getDevice(deviceId);
+        if (!device) {
+            throw new Error('Dispositivo não conectado');
+        }
+
+        const existing = this.panels.get(deviceId);
+        if (existing) {
+            existing.reveal();
+        } else {
+            const panel = vscode.window.createWebviewPanel(
+                'micropython-dashboard',
+                `Painel: ${device.name}`,
+                vscode.ViewColumn.Active,
+                { enableScripts: true }
+            );
+            panel.webview.onDidReceiveMessage(message => {
+                if (message?.command === 'refresh') {
+                    this.refresh(deviceId);
+                }
+            });
+            panel.onDidDispose(() => this.panels.delete(deviceId));
+            this.panels.set(deviceId, panel);
+        }
+
+        await this.refresh(deviceId);
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.panels.forEach(panel => panel.dispose());
+        this.panels.clear();
+    }
+
+    private async refresh(deviceId: string): Promise<void> {
+        this.loading.add(deviceId);
+        this.errors.delete(deviceId);
+        this.render(deviceId);
+
+        try {
+            await this.deviceManager.getDeviceInfo(deviceId);
+        } catch (error) {
+            this.errors.set(deviceId, error instanceof Error ? error.message : String(error));
+        } finally {
+            this.loading.delete(deviceId);
+            this.render(deviceId);
+        }
+    }
+
+    private render(deviceId: string): void {
+        const panel = this.panels.get(deviceId);
+        const device = this.deviceManager.getDevice(deviceId);
+        if (!panel || !device) {
+            return;
+        }
+
+        panel.title = `Painel: ${device.name}`;
+        panel.webview.html = this.getHtml(panel.webview, device);
+    }
+
+    private getHtml(webview: vscode.Webview, device: ESP32Device): string {
+        const nonce = crypto.randomBytes(16).toString('hex');
+        const info = device.info;
+        const error = this.errors.get(device.id);
+
+        const rows = info
+            ? describeDeviceInfo(info).map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('')
+            : '';
+        const bars = info ? [
+            usageBar('Heap', info.memory.allocated, info.memory.free + info.memory.allocated),
+            info.filesystem ? usageBar('Sistema de arquivos', info.filesystem.total - info.filesystem.free, info.filesystem.total) : ''
+        ].join('') : '';
+
+        return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px; }
+    header { display: flex; align-items: center; gap: 12px; }
+    .muted { color: var(--vscode-descriptionForeground); }
+    .error { color: var(--vscode-errorForeground); }
+    table { border-collapse: collapse; margin: 12px 0; }
+    th { text-align: left; font-weight: normal; color: var(--vscode-descriptionForeground); padding: 4px 24px 4px 0; }
+    .bar { width: 320px; height: 8px; background: var(--vscode-editorWidget-background); border: 1px solid var(--vscode-widget-border, transparent); }
+    .bar > div { height: 100%; background: var(--vscode-progressBar-background); }
+    button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 12px; cursor: pointer; }
+    button:disabled { opacity: 0.6; cursor: default; }
+</style>
+</head>
+<body>
+<header>
+    <h2>${escapeHtml(device.name)}</h2>
+    <span class="muted">${escapeHtml(device.port)}</span>
+    <button id="refresh" ${this.loading.has(device.id) ? 'disabled' : ''}>${this.loading.has(device.id) ? 'Lendo...' : 'Atualizar'}</button>
+</header>
+${error ? `<p class="error">Erro ao ler informações: ${escapeHtml(error)}</p>` : ''}
+${info ? `<table>${rows}</table>${bars}` : '<p class="muted">Nenhuma leitura ainda.</p>'}
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.getElementById('refresh').addEventListener('click', () => vscode.postMessage({ command: 'refresh' }));
+</script>
+</body>
+</html>`;
+    }
+}
+
+function usageBar(label: string, used: number, total: number): string {
+    const percent = total > 0 ? Math.round(used / total * 100) : 0;
+    return `<p>${escapeHtml(label)}: ${percent}% em uso</p><div class="bar"><div style="width: ${percent}%"></div></div>`;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DeviceManager } from './deviceManager';
+import { DeviceError, TracebackFrame } from './deviceError';
+
+/**
+ * Código enviado diretamente ao dispositivo (arquivo local executado ou trecho dele)
+ */
+export interface ExecutedSource {
+    /** Arquivo local de onde o código veio */
+    path: string;
+    /** Linhas antes do trecho enviado (0 para o arquivo inteiro) */
+    lineOffset?: number;
+}
+
+/**
+ * Publica tracebacks do dispositivo como diagnósticos do editor
+ *
+ * Problema: Uma exceção em main.py na placa só aparecia como texto no canal de saída
+ * Solução: Mapeia os frames do `DeviceError` para os arquivos locais (código executado,
+ *          arquivos enviados por upload ou o mesmo caminho no workspace) e publica na
+ *          `DiagnosticCollection` a linha onde a exceção foi levantada
+ * Exemplo: `File "main.py", line 12` vira um sublinhado vermelho na linha 12 do main.py local
+ */
+export class DeviceDiagnostics implements vscode.Disposable {
+    private collection = vscode.languages.createDiagnosticCollection('micropython');
+    // Arquivos com diagnósticos de cada dispositivo, para limpar apenas os dele
+    private publishedUris: Map<string, vscode.Uri[]> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private deviceManager: DeviceManager) {
+        this.disposables.push(
+            this.collection,
+            deviceManager.onDidDisconnect(device => this.clear(device.id))
+        );
+    }
+
+    /**
+     * Substitui os diagnósticos do dispositivo pelos do novo erro
+     */
+    publish(deviceId: string, error: DeviceError, source?: ExecutedSource): void {
+        this.clear(deviceId);
+
+        const locations = error.frames
+            .map(frame => ({ frame, location: this.resolveFrame(deviceId, frame, source) }))
+            .filter((entry): entry is { frame: TracebackFrame, location: vscode.Location } => entry.location !== undefined);
+
+        const innermost = locations[locations.length - 1];
+        if (!innermost) {
+            return;
+        }
+
+        const device = this.deviceManager.getDevice(deviceId);
+        const diagnostic = new vscode.Diagnostic(innermost.location.range, error.message, vscode.DiagnosticSeverity.Error);
+        diagnostic.source = `MicroPython${device ? ` (${device.name})` : ''}`;
+        diagnostic.code = error.exceptionType;
+        diagnostic.relatedInformation = locations.slice(0, -1).map(({ frame, location }) =>
+            new vscode.DiagnosticRelatedInformation(location, `chamado em ${frame.scope || '<module>'}`)
+        );
+
+        this.collection.set(innermost.location.uri, [diagnostic]);
+        this.publishedUris.set(deviceId, [innermost.location.uri]);
+    }
+
+    /**
+     * Remove os diagnósticos publicados para um dispositivo
+     */
+    clear(deviceId: string): void {
+        this.publishedUris.get(deviceId)?.forEach(uri => this.collection.delete(uri));
+        this.publishedUris.delete(deviceId);
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.publishedUris.clear();
+    }
+
+    /**
+     * Encontra o arquivo local correspondente a um frame do traceback
+     */
+    private resolveFrame(deviceId: string, frame: TracebackFrame, source?: ExecutedSource): vscode.Location | undefined {
+        let localPath: string | undefined;
+        let line = frame.line;
+
+        if (frame.file === '<stdin>') {
+            // Código enviado pelo raw REPL
+            localPath = source?.path;
+            line += source?.lineOffset || 0;
+        } else {
+            localPath = this.deviceManager.getUploadSource(deviceId, frame.file) || this.findInWorkspace(frame.file);
+        }
+
+        if (!localPath) {
+            return undefined;
+        }
+
+        const range = new vscode.Range(line - 1, 0, line - 1, Number.MAX_SAFE_INTEGER);
+        return new vscode.Location(vscode.Uri.file(localPath), range);
+    }
+
+    /**
+     * Procura o caminho remoto relativo às pastas do workspace (ex.: /lib/x.py → <workspace>/lib/x.py)
+     */
+    private findInWorkspace(remotePath: string): string | undefined {
+        const relative = remotePath.replace(/^\/+/, '');
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            const candidate = path.join(folder.uri.fsPath, relative);
+            if (fs.existsSync(candidate)) {
+                return candidate;
+            }
+        }
+        return undefined;
+    }
+}
@@ -0,0 +1,74 @@
+/** Linha de frame de um traceback do MicroPython */
+const FRAME_PATTERN = /^\s*File "([^"]+)", line (\d+)(?:, in (.+))?\s*$/;
+
+/** Última linha do traceback: "Tipo: mensagem" ou apenas "Tipo" */
+const EXCEPTION_PATTERN = /^([A-Za-z_][\w.]*)(?::\s?(.*))?$/;
+
+/**
+ * Frame de um traceback, do mais externo para o mais interno
+ */
+export interface TracebackFrame {
+    /** Arquivo como informado pelo dispositivo ("<stdin>", "main.py", "/lib/x.py") */
+    file: string;
+    /** Linha (a partir de 1) */
+    line: number;
+    /** Função ou "<module>" */
+    scope?: string;
+}
+
+/**
+ * Exceção levantada por código executado no dispositivo
+ *
+ * Problema: O traceback do MicroPython chegava apenas como texto em stderr
+ * Solução: Separa tipo, mensagem e frames para que possam ser mapeados aos arquivos locais
+ * Exemplo: `DeviceError.parse(result.stderr)?.frames` → `[{ file: 'main.py', line: 12, scope: 'foo' }]`
+ */
+export class DeviceError extends Error {
+    constructor(
+        readonly exceptionType: string,
+        readonly detail: string,
+        readonly frames: TracebackFrame[],
+        readonly traceback: string
+    ) {
+        super(detail ? `${exceptionType}: ${detail}` : exceptionType);
+        this.name = 'DeviceError';
+    }
+
+    /**
+     * Frame mais interno, onde a exceção foi levantada
+     */
+    get innermostFrame(): TracebackFrame | undefined {
+        return this.frames[this.frames.length - 1];
+    }
+
+    /**
+     * Interpreta o stderr de um comando; retorna undefined se não houver traceback
+     */
+    static parse(stderr: string): DeviceError | undefined {
+        const lines = stderr.split(/\r?\n/).map(line => line.trimEnd()).filter(Boolean);
+        const start = lines.findIndex(line => line.startsWith('Traceback (most recent call last)'));
+        if (start === -1) {
+            return undefined;
+        }
+
+        const frames: TracebackFrame[] = [];
+        let exceptionLine: string | undefined;
+
+        for (const line of lines.slice(start + 1)) {
+            const frame = line.match(FRAME_PATTERN);
+            if (frame) {
+                frames.push({ file: frame[1], line: parseInt(frame[2]), scope: frame[3] });
+            } else if (!/^\s/.test(line)) {
+                // Linhas indentadas sem "File" são trechos de código; a exceção não é indentada
+                exceptionLine = line;
+            }
+        }
+
+        const exception = exceptionLine?.match(EXCEPTION_PATTERN);
+        if (!exception) {
+            return undefined;
+        }
+
+        return new DeviceError(exception[1], (exception[2] || '').trim(), frames, lines.slice(start).join('\n'));
+    }
+}
@@ -1,9 +1,105 @@
 import * as vscode from 'vscode';
 import { SerialPort } from 'serialport';
 import { ReadlineParser } from '@serialport/parser-readline';
-import { ESP32Device, SerialPortInfo, ESP32File } from './types';
+import { ESP32Device, SerialPortInfo, ESP32File, CommandResult, CommandOutputChunk, DeviceStatus, DeviceFilesChangeEvent, DeviceProfile, DeviceInfo, HeapSample, DeviceLineEvent, DeviceTrafficEvent, TrafficDirection } from './types';
+import { RawReplSession } from './rawRepl';
+import { Transport, TransportOptions, createTransport, usesBaudRate } from './transport';
+import { PortWatcher } from './portWatcher';
+import { DeviceProfileStore } from './deviceProfiles';
+import { SettingsService } from './settings';
+import { SessionLog, sessionLogDirectory } from './sessionLog';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as crypto from 'crypto';
+
+/** Tamanho dos blocos (em bytes) usados nas transferências de arquivos */
+const TRANSFER_CHUNK_SIZE = 512;
+
+/** Prompt do REPL amigável aguardando uma nova linha */
+const REPL_PROMPT = '>>> ';
+
+/** Espera inicial e máxima entre tentativas de reconexão (dobra a cada falha) */
+const RECONNECT_INITIAL_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+/** Tempo com EN em nível baixo no reset por hardware */
+const HARD_RESET_PULSE_MS = 100;
+
+/**
+ * Operação enfileirada para execução exclusiva na sessão de um dispositivo
+ */
+interface QueuedOperation {
+    operation: (session: RawReplSession) => Promise<unknown>;
+    resolve: (value: any) => void;
+    reject: (reason?: any) => void;
+    /** Remove a operação da fila se o token for cancelado antes dela começar */
+    cancellation?: vscode.Disposable;
+}
+
+/**
+ * JSON impresso por `_mpm_info()` no dispositivo (ver `getDeviceInfo`); opcionais faltam quando o
+ * firmware não tem o módulo correspondente
+ */
+interface RawDeviceInfo {
+    /** [nome, versão, placa, versão do .mpy] */
+    impl: [string, string, string | null, number | null];
+    machine?: string;
+    release?: string;
+    /** [total, livre] do sistema de arquivos em bytes */
+    fs?: [number, number];
+    uid?: string;
+    freq?: number;
+    flash?: number;
+    ticks?: number;
+    /** [livre, alocado] do heap após `gc.collect()` */
+    mem: [number, number];
+}
+
+/**
+ * Confere tipo e presença dos campos de `_mpm_info()` antes de montar o `DeviceInfo`
+ */
+function parseRawDeviceInfo(value: unknown): RawDeviceInfo {
+    const invalid = (field: string) => new Error(`Leitura de informações inválida: campo "${field}" ausente ou com formato inesperado`);
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw invalid('info');
+    }
+
+    const raw = value as Record<string, unknown>;
+    const isNumber = (item: unknown): item is number => typeof item === 'number' && isFinite(item);
+    const isString = (item: unknown): item is string => typeof item === 'string';
+    const isNumberPair = (item: unknown): item is [number, number] => Array.isArray(item) && item.length === 2 && item.every(isNumber);
+    const optional = <T>(key: string, check: (item: unknown) => item is T): T | undefined => {
+        if (raw[key] === undefined || raw[key] === null) {
+            return undefined;
+        }
+        if (!check(raw[key])) {
+            throw invalid(key);
+        }
+        return raw[key] as T;
+    };
+
+    const impl = raw.impl;
+    if (!Array.isArray(impl) || !isString(impl[0]) || !isString(impl[1])
+        || !(impl[2] === null || impl[2] === undefined || isString(impl[2]))
+        || !(impl[3] === null || impl[3] === undefined || isNumber(impl[3]))) {
+        throw invalid('impl');
+    }
+    if (!isNumberPair(raw.mem)) {
+        throw invalid('mem');
+    }
+
+    return {
+        impl: [impl[0], impl[1], impl[2] ?? null, impl[3] ?? null],
+        machine: optional('machine', isString),
+        release: optional('release', isString),
+        fs: optional('fs', isNumberPair),
+        uid: optional('uid', isString),
+        freq: optional('freq', isNumber),
+        flash: optional('flash', isNumber),
+        ticks: optional('ticks', isNumber),
+        mem: raw.mem
+    };
+}
 
 /**
  * Gerenciador de dispositivos ESP32 com MicroPython
@@ -14,13 +110,72 @@ import * as path from 'path';
  */
 export class DeviceManager {
     private devices: Map<string, ESP32Device> = new Map();
-    private connections: Map<string, SerialPort> = new Map();
+    private connections: Map<string, Transport> = new Map();
+    private subscriptions: Map<string, vscode.Disposable[]> = new Map();
     private parsers: Map<string, ReadlineParser> = new Map();
+    private sessions: Map<string, RawReplSession> = new Map();
+    private replListeners: Map<string, Set<(data: string) => void>> = new Map();
+    // Últimos caracteres recebidos no REPL amigável (para saber se está parado no prompt)
+    private replTails: Map<string, string> = new Map();
     private outputChannels: Map<string, vscode.OutputChannel> = new Map();
-    private commandQueues: Map<string, { command: string, resolve: (output: string) => void, reject: (reason?: any) => void }[]> = new Map();
+    private commandQueues: Map<string, QueuedOperation[]> = new Map();
     private isProcessingQueue: Map<string, boolean> = new Map();
+    private connectOptions: Map<string, TransportOptions | undefined> = new Map();
+    private reconnectTimers: Map<string, NodeJS.Timeout> = new Map();
+    private reconnecting: Set<string> = new Set();
+    private watcherSubscriptions: vscode.Disposable[] = [];
+    // Arquivo local de origem de cada caminho remoto enviado por upload (por dispositivo)
+    private uploadSources: Map<string, Map<string, string>> = new Map();
+    // Logs em disco do tráfego serial (com `sessionLogging` ativo); sobrevivem às reconexões
+    private sessionLogs: Map<string, SessionLog> = new Map();
+
+    private _onDidConnect = new vscode.EventEmitter<ESP32Device>();
+    private _onDidDisconnect = new vscode.EventEmitter<ESP32Device>();
+    private _onDidChangeStatus = new vscode.EventEmitter<ESP32Device>();
+    private _onDidChangeFiles = new vscode.EventEmitter<DeviceFilesChangeEvent>();
+    private _onDidChangeInfo = new vscode.EventEmitter<ESP32Device>();
+    private _onDidReceiveLine = new vscode.EventEmitter<DeviceLineEvent>();
+    private _onDidTransferData = new vscode.EventEmitter<DeviceTrafficEvent>();
+
+    /** Dispositivo conectado e pronto para comandos */
+    readonly onDidConnect: vscode.Event<ESP32Device> = this._onDidConnect.event;
+    /** Dispositivo removido (desconexão manual ou falha) */
+    readonly onDidDisconnect: vscode.Event<ESP32Device> = this._onDidDisconnect.event;
+    /** Mudança de `status` de um dispositivo existente */
+    readonly onDidChangeStatus: vscode.Event<ESP32Device> = this._onDidChangeStatus.event;
+    /** Conteúdo de um diretório alterado pela extensão (upload, exclusão...) */
+    readonly onDidChangeFiles: vscode.Event<DeviceFilesChangeEvent> = this._onDidChangeFiles.event;
+    /** Informações de um dispositivo atualizadas (nome, memória, `getDeviceInfo`) */
+    readonly onDidChangeInfo: vscode.Event<ESP32Device> = this._onDidChangeInfo.event;
+    /** Linha impressa pelo programa em execução no REPL amigável (ex.: main.py após o reset) */
+    readonly onDidReceiveLine: vscode.Event<DeviceLineEvent> = this._onDidReceiveLine.event;
+    /** Bytes enviados ou recebidos pelo transporte, inclusive o protocolo do raw REPL */
+    readonly onDidTransferData: vscode.Event<DeviceTrafficEvent> = this._onDidTransferData.event;
+
+    /** Perfis persistidos das placas já vistas */
+    readonly profiles: DeviceProfileStore;
+
+    /**
+     * @param transportFactory Cria o transporte para um endereço (permite injetar dispositivos simulados)
+     * @param portWatcher Observador de hotplug USB usado para detectar remoção e retorno das placas
+     * @param settings Configurações da extensão (baudrates, timeouts, reconexão)
+     */
+    constructor(
+        private context: vscode.ExtensionContext,
+        private transportFactory: (portPath: string, baudRate: number, options?: TransportOptions) => Transport = createTransport,
+        portWatcher?: PortWatcher,
+        readonly settings: SettingsService = new SettingsService()
+    ) {
+        this.profiles = new DeviceProfileStore(context.globalState);
+        this.watcherSubscriptions.push(settings.onDidChange(() => this.applySettings()));
 
-    constructor(private context: vscode.ExtensionContext) {}
+        if (portWatcher) {
+            this.watcherSubscriptions.push(
+                portWatcher.onDidDetach(port => this.handlePortDetached(port)),
+                portWatcher.onDidAttach(port => this.handlePortAttached(port))
+            );
+        }
+    }
 
     /**
      * Lista e retorna portas seriais disponíveis no sistema
@@ -42,75 +197,78 @@ export class DeviceManager {
      * Solução: Implementa retry automático e configuração otimizada para ESP32
      * Exemplo: Tenta 115200 baud primeiro, depois 9600 se falhar
      */
-    async connectDevice(portPath: string, customBaudRate?: number): Promise<ESP32Device | null> {
-        const deviceId = `esp32_${portPath.replace(/[^a-zA-Z0-9]/g, '_')}`;
-        
-        // Configurações otimizadas para ESP32
-        const baudRates = customBaudRate ? [customBaudRate] : [115200, 9600, 57600];
+    async connectDevice(portPath: string, customBaudRate?: number, options?: TransportOptions): Promise<ESP32Device | null> {
+        // Placas USB com número de série têm ID estável, mesmo quando mudam de porta
+        const portInfo = usesBaudRate(portPath) ? await this.findPortInfo(portPath) : undefined;
+        const serialKey = DeviceProfileStore.keyFor(portInfo?.serialNumber);
+        const deviceId = `esp32_${(serialKey || portPath).replace(/[^a-zA-Z0-9]/g, '_')}`;
+
+        const existing = this.devices.get(deviceId);
+        if (existing) {
+            vscode.window.showInformationMessage(`${existing.name} já está conectado em ${existing.port}`);
+            return existing;
+        }
+
+        // Configurações otimizadas para ESP32; endereços de rede/virtuais não dependem de baudrate.
+        // O baudrate preferido do perfil (se houver) é tentado primeiro.
+        const knownProfile = serialKey
+            ? this.profiles.get(serialKey)
+            : this.profiles.getAll().find(profile => profile.port === portPath);
+        const defaultBaudRates = usesBaudRate(portPath) ? this.settings.baudRates : [this.settings.value.defaultBaudRate];
+        const preferredBaudRate = knownProfile?.baudRate;
+        const baudRates = customBaudRate
+            ? [customBaudRate]
+            : preferredBaudRate ? [preferredBaudRate, ...defaultBaudRates.filter(rate => rate !== preferredBaudRate)] : defaultBaudRates;
+        let lastError: unknown;
+
+        this.startSessionLog(deviceId);
         
         for (const baudRate of baudRates) {
             try {
-                const serialPort = new SerialPort({
-                    path: portPath,
-                    baudRate: baudRate,
-                    dataBits: 8,
-                    stopBits: 1,
-                    parity: 'none',
-                    autoOpen: false
-                });
-                
-                const parser = new ReadlineParser({ delimiter: '\r\n' });
-                
-                await new Promise<void>((resolve, reject) => {
-                    serialPort.open((err) => {
-                        if (err) {
-                            reject(err);
-                        } else {
-                            resolve();
-                        }
-                    });
-                });
-
-                serialPort.pipe(parser);
+                this.sessionLogs.get(deviceId)?.note(`Conectando em ${portPath} (${baudRate} baud)`);
+                await this.openTransport(deviceId, portPath, baudRate, options);
 
                 // Criar canal de saída para este dispositivo
                 const outputChannel = vscode.window.createOutputChannel(`ESP32 - ${portPath}`);
-                
-                // Configurar listeners
+                const parser = new ReadlineParser({ delimiter: '\r\n' });
+
                 parser.on('data', (data: string) => {
                     outputChannel.appendLine(data);
-                    // Atualizar última atividade quando receber dados
-                    const currentDevice = this.devices.get(deviceId);
-                    if (currentDevice) {
-                        currentDevice.lastActivity = new Date();
-                        this.devices.set(deviceId, currentDevice);
-                    }
+                    this._onDidReceiveLine.fire({ deviceId, line: data });
                 });
 
-                serialPort.on('error', (err) => {
-                    vscode.window.showErrorMessage(`Erro na conexão ${portPath}: ${err.message}`);
-                    this.disconnectDevice(deviceId);
-                });
+                // Canal, parser e ouvintes do REPL sobrevivem às reconexões
+                this.parsers.set(deviceId, parser);
+                this.replListeners.set(deviceId, new Set());
+                this.outputChannels.set(deviceId, outputChannel);
+                this.connectOptions.set(deviceId, options);
 
-                // Testar se é MicroPython enviando comando de versão
-                const micropythonVersion = await this.detectMicroPython(serialPort, parser);
+                // Testar se é MicroPython consultando sys.implementation
+                const micropythonVersion = await this.detectMicroPython(deviceId);
+                const defaultName = this.connections.get(deviceId)?.deviceName || `ESP32 (${portPath})`;
+                const profile = await this.rememberProfile(deviceId, portPath, baudRate, defaultName, portInfo);
                 
                 const device: ESP32Device = {
                     id: deviceId,
-                    name: `ESP32 (${portPath})`,
+                    name: profile?.name || defaultName,
                     port: portPath,
                     baudRate,
                     isConnected: true,
+                    status: DeviceStatus.CONNECTED,
                     micropythonVersion,
-                    lastActivity: new Date()
+                    lastActivity: new Date(),
+                    serialNumber: portInfo?.serialNumber,
+                    vendorId: portInfo?.vendorId,
+                    productId: portInfo?.productId,
+                    profileKey: profile?.key
                 };
 
                 this.devices.set(deviceId, device);
-                this.connections.set(deviceId, serialPort);
-                this.parsers.set(deviceId, parser);
-                this.outputChannels.set(deviceId, outputChannel);
-                this.commandQueues.set(deviceId, []);
-                this.isProcessingQueue.set(deviceId, false);
+                this.sessionLogs.get(deviceId)?.note(`Conectado: ${device.name} (${micropythonVersion || 'MicroPython'})`);
+                this._onDidConnect.fire(device);
+
+                // Informações completas (inclui a memória) para a árvore e o painel
+                this.getDeviceInfo(deviceId).catch(error => console.log(`Erro ao ler informações de ${deviceId}:`, error));
 
                 vscode.window.showInformationMessage(
                     `Conectado ao ESP32 em ${portPath} (${baudRate} baud)`
@@ -120,64 +278,505 @@ export class DeviceManager {
 
             } catch (error) {
                 console.log(`Falha ao conectar em ${portPath} com ${baudRate} baud:`, error);
+                this.sessionLogs.get(deviceId)?.note(`Falha ao conectar com ${baudRate} baud: ${error instanceof Error ? error.message : error}`);
+                lastError = error;
+                await this.discardAttempt(deviceId);
                 continue;
             }
         }
 
-        vscode.window.showErrorMessage(`Não foi possível conectar ao dispositivo em ${portPath}`);
+        const reason = lastError instanceof Error ? `: ${lastError.message}` : '';
+        this.stopSessionLog(deviceId, 'Conexão não estabelecida');
+        vscode.window.showErrorMessage(`Não foi possível conectar ao dispositivo em ${portPath}${reason}`);
         return null;
     }
 
     /**
-     * Detecta se o dispositivo está executando MicroPython
+     * Conecta a uma placa conhecida, procurando a porta atual pelo número de série
+     */
+    async connectProfile(profileKey: string, options?: TransportOptions): Promise<ESP32Device | null> {
+        const profile = this.profiles.get(profileKey);
+        if (!profile) {
+            throw new Error('Perfil de dispositivo não encontrado');
+        }
+
+        let portPath = profile.port;
+        if (profile.serialNumber) {
+            const port = (await this.listSerialPorts()).find(info => info.serialNumber === profile.serialNumber);
+            if (!port) {
+                throw new Error(`${profile.name} não foi encontrada em nenhuma porta USB`);
+            }
+            portPath = port.path;
+        }
+
+        return this.connectDevice(portPath, undefined, options);
+    }
+
+    /**
+     * Salva alterações de um perfil e aplica o nome ao dispositivo conectado
+     */
+    async updateProfile(profile: DeviceProfile): Promise<void> {
+        await this.profiles.save(profile);
+
+        for (const device of this.devices.values()) {
+            if (device.profileKey === profile.key) {
+                device.name = profile.name;
+                this._onDidChangeInfo.fire(device);
+            }
+        }
+    }
+
+    /**
+     * Obtém o perfil associado a um dispositivo conectado
+     */
+    getProfile(deviceId: string): DeviceProfile | undefined {
+        const profileKey = this.devices.get(deviceId)?.profileKey;
+        return profileKey ? this.profiles.get(profileKey) : undefined;
+    }
+
+    /**
+     * Cria ou atualiza o perfil da placa recém-conectada
+     *
+     * Sem número de série USB (ex.: CH340, WebREPL), a placa é identificada por `machine.unique_id()`.
+     */
+    private async rememberProfile(
+        deviceId: string,
+        portPath: string,
+        baudRate: number,
+        defaultName: string,
+        portInfo?: SerialPortInfo
+    ): Promise<DeviceProfile | undefined> {
+        const identity = await this.identifyBoard(deviceId);
+        const key = DeviceProfileStore.keyFor(portInfo?.serialNumber, identity.uniqueId);
+        if (!key) {
+            return undefined;
+        }
+
+        const existing = this.profiles.get(key);
+        const profile: DeviceProfile = {
+            ...existing,
+            key,
+            name: existing?.name || defaultName,
+            baudRate: existing?.baudRate || baudRate,
+            boardType: existing?.boardType || identity.machine,
+            port: portPath,
+            serialNumber: portInfo?.serialNumber,
+            uniqueId: identity.uniqueId || existing?.uniqueId,
+            lastSeen: new Date().toISOString()
+        };
+
+        try {
+            await this.profiles.save(profile);
+        } catch (error) {
+            console.log(`Erro ao salvar perfil ${key}:`, error);
+        }
+        return profile;
+    }
+
+    /**
+     * Lê `machine.unique_id()` e `os.uname().machine`; ambos são opcionais no firmware
+     */
+    private async identifyBoard(deviceId: string): Promise<{ uniqueId?: string, machine?: string }> {
+        const command = `
+import os
+_mpm_id = ['', '']
+try:
+    import machine, ubinascii
+    _mpm_id[0] = ubinascii.hexlify(machine.unique_id()).decode()
+except Exception:
+    pass
+try:
+    _mpm_id[1] = os.uname().machine
+except Exception:
+    pass
+print('|'.join(_mpm_id))
+del _mpm_id
+`;
+        try {
+            const result = await this.executeCommand(deviceId, command, 5000);
+            const [uniqueId, machine] = result.stdout.trim().split('|');
+            return { uniqueId: uniqueId || undefined, machine: machine || undefined };
+        } catch (error) {
+            console.log(`Não foi possível identificar ${deviceId}:`, error);
+            return {};
+        }
+    }
+
+    /**
+     * Abre o transporte e cria a sessão raw REPL de um dispositivo
+     *
+     * Usado tanto na primeira conexão quanto nas reconexões; canal de saída,
+     * parser e ouvintes do REPL são consultados pelo ID e não são recriados.
      */
-    private async detectMicroPython(serialPort: SerialPort, parser: ReadlineParser): Promise<string | undefined> {
-        return new Promise((resolve) => {
-            let timeout: NodeJS.Timeout;
-            let responseData = '';
-
-            const onData = (data: string) => {
-                responseData += data;
-                if (responseData.includes('MicroPython') || responseData.includes('micropython')) {
-                    clearTimeout(timeout);
-                    parser.off('data', onData);
-                    
-                    const versionMatch = responseData.match(/MicroPython v(\d+\.\d+\.\d+)/);
-                    resolve(versionMatch ? versionMatch[1] : 'Detectado');
+    private async openTransport(deviceId: string, portPath: string, baudRate: number, options?: TransportOptions): Promise<Transport> {
+        const transport = this.transportFactory(portPath, baudRate, {
+            timeoutMs: this.settings.value.connectionTimeout,
+            unixPortPath: this.settings.value.unixPortPath,
+            ...options
+        });
+        await transport.open();
+
+        // Sessão raw REPL: bytes fora do modo raw seguem para o parser de linhas e o terminal
+        const session = new RawReplSession(
+            data => {
+                this.recordTraffic(deviceId, 'TX', data);
+                return transport.write(data);
+            },
+            data => {
+                this.parsers.get(deviceId)?.write(data);
+                const text = data.toString('utf8');
+                this.replTails.set(deviceId, ((this.replTails.get(deviceId) || '') + text).slice(-REPL_PROMPT.length));
+                this.replListeners.get(deviceId)?.forEach(listener => listener(text));
+            }
+        );
+
+        // Configurar listeners
+        const subscriptions = [
+            transport.onData((chunk: Buffer) => {
+                // Atualizar última atividade quando receber dados
+                const currentDevice = this.devices.get(deviceId);
+                if (currentDevice) {
+                    currentDevice.lastActivity = new Date();
                 }
-            };
-
-            parser.on('data', onData);
-
-            // Enviar comandos para detectar MicroPython
-            serialPort.write('\r\n');
-            setTimeout(() => {
-                serialPort.write('import sys\r\n');
-                setTimeout(() => {
-                    serialPort.write('print(sys.implementation)\r\n');
-                }, 100);
-            }, 200);
-
-            timeout = setTimeout(() => {
-                parser.off('data', onData);
-                resolve(undefined);
-            }, 3000);
+                this.recordTraffic(deviceId, 'RX', chunk);
+                session.feed(chunk);
+            }),
+            transport.onError((err) => this.handleConnectionLost(deviceId, err))
+        ];
+
+        this.connections.set(deviceId, transport);
+        this.subscriptions.set(deviceId, subscriptions);
+        this.sessions.set(deviceId, session);
+        if (!this.commandQueues.has(deviceId)) {
+            this.commandQueues.set(deviceId, []);
+            this.isProcessingQueue.set(deviceId, false);
+        }
+
+        return transport;
+    }
+
+    /**
+     * Desfaz uma tentativa de conexão que falhou depois de abrir o transporte
+     *
+     * Sem isso a porta continua aberta (e travada para o próximo baudrate) e o canal de saída vaza.
+     */
+    private async discardAttempt(deviceId: string): Promise<void> {
+        await this.closeTransport(deviceId, 'Conexão não estabelecida');
+        this.outputChannels.get(deviceId)?.dispose();
+        this.outputChannels.delete(deviceId);
+        this.parsers.delete(deviceId);
+        this.replListeners.delete(deviceId);
+        this.connectOptions.delete(deviceId);
+    }
+
+    /**
+     * Encerra transporte e sessão, rejeitando as operações pendentes
+     */
+    private async closeTransport(deviceId: string, reason: string): Promise<void> {
+        const connection = this.connections.get(deviceId);
+
+        const queue = this.commandQueues.get(deviceId);
+        if (queue) {
+            this.rejectQueued(queue, new Error(reason));
+        }
+        this.sessions.get(deviceId)?.dispose();
+        this.subscriptions.get(deviceId)?.forEach(subscription => subscription.dispose());
+
+        this.connections.delete(deviceId);
+        this.subscriptions.delete(deviceId);
+        this.sessions.delete(deviceId);
+
+        if (connection && connection.isOpen) {
+            await connection.close().catch(error => console.log(`Erro ao fechar ${deviceId}:`, error));
+        }
+    }
+
+    /**
+     * Trata a perda de conexão mantendo o dispositivo na árvore
+     *
+     * Problema: Um erro na porta (cabo removido, reset por watchdog) fazia o dispositivo sumir
+     * Solução: Mantém dispositivo, REPL e canal de saída em estado CONNECTING e tenta reconectar
+     * Exemplo: Placa replugada volta a responder no mesmo terminal REPL, sem reabrir nada
+     */
+    private handleConnectionLost(deviceId: string, error: Error): void {
+        const device = this.devices.get(deviceId);
+        if (!device) {
+            // Falha durante a primeira conexão: connectDevice trata o erro
+            this.closeTransport(deviceId, `Conexão perdida: ${error.message}`);
+            return;
+        }
+        if (device.status === DeviceStatus.CONNECTING) {
+            return;
+        }
+
+        if (!this.settings.value.autoReconnect) {
+            vscode.window.showErrorMessage(`Erro na conexão ${device.port}: ${error.message}`);
+            this.setStatus(deviceId, DeviceStatus.ERROR);
+            this.disconnectDevice(deviceId);
+            return;
+        }
+
+        this.outputChannels.get(deviceId)?.appendLine(`\n=== Conexão perdida (${error.message}). Tentando reconectar... ===`);
+        this.sessionLogs.get(deviceId)?.note(`Conexão perdida: ${error.message}`);
+        vscode.window.showWarningMessage(`Conexão com ${device.name} perdida. Tentando reconectar...`);
+
+        this.closeTransport(deviceId, `Conexão perdida: ${error.message}`);
+        this.setStatus(deviceId, DeviceStatus.CONNECTING);
+        this.scheduleReconnect(deviceId, RECONNECT_INITIAL_DELAY_MS);
+    }
+
+    private scheduleReconnect(deviceId: string, delayMs: number): void {
+        const existing = this.reconnectTimers.get(deviceId);
+        if (existing) {
+            clearTimeout(existing);
+        }
+
+        this.reconnectTimers.set(deviceId, setTimeout(() => this.tryReconnect(deviceId, delayMs), delayMs));
+    }
+
+    /**
+     * Uma tentativa de reconexão; em caso de falha agenda a próxima com espera dobrada
+     */
+    private async tryReconnect(deviceId: string, delayMs: number): Promise<void> {
+        this.reconnectTimers.delete(deviceId);
+
+        const device = this.devices.get(deviceId);
+        if (!device || device.status !== DeviceStatus.CONNECTING || this.reconnecting.has(deviceId)) {
+            return;
+        }
+
+        this.reconnecting.add(deviceId);
+        try {
+            const portPath = await this.resolveReconnectPath(device);
+            if (!portPath) {
+                throw new Error('Placa não encontrada entre as portas seriais');
+            }
+
+            await this.openTransport(deviceId, portPath, device.baudRate, this.connectOptions.get(deviceId));
+
+            // Usuário desconectou durante a tentativa
+            if (this.devices.get(deviceId) !== device) {
+                await this.closeTransport(deviceId, 'Dispositivo desconectado');
+                return;
+            }
+
+            device.port = portPath;
+            device.lastActivity = new Date();
+            this.outputChannels.get(deviceId)?.appendLine(`=== Reconectado em ${portPath} ===\n`);
+            this.sessionLogs.get(deviceId)?.note(`Reconectado em ${portPath}`);
+            this.setStatus(deviceId, DeviceStatus.CONNECTED);
+        } catch (error) {
+            console.log(`Reconexão de ${deviceId} falhou:`, error);
+            await this.closeTransport(deviceId, 'Conexão perdida');
+            if (this.devices.get(deviceId) === device) {
+                this.scheduleReconnect(deviceId, Math.min(delayMs * 2, RECONNECT_MAX_DELAY_MS));
+            }
+        } finally {
+            this.reconnecting.delete(deviceId);
+        }
+    }
+
+    /**
+     * Localiza a porta atual da placa (o sistema pode trocar ttyUSB0 por ttyUSB1 no replug)
+     */
+    private async resolveReconnectPath(device: ESP32Device): Promise<string | undefined> {
+        if (!device.serialNumber && !device.vendorId) {
+            return device.port;
+        }
+
+        const ports = await this.listSerialPorts();
+        const candidates = ports.filter(port => this.isSameBoard(device, port));
+        return (candidates.find(port => port.path === device.port) || candidates[0])?.path;
+    }
+
+    /**
+     * Compara pela identificação USB: número de série quando existe, senão VID/PID
+     */
+    private isSameBoard(device: ESP32Device, port: SerialPortInfo): boolean {
+        if (device.serialNumber) {
+            return port.serialNumber === device.serialNumber;
+        }
+        return !!device.vendorId && port.vendorId === device.vendorId && port.productId === device.productId;
+    }
+
+    private async findPortInfo(portPath: string): Promise<SerialPortInfo | undefined> {
+        try {
+            return (await this.listSerialPorts()).find(port => port.path === portPath);
+        } catch {
+            return undefined;
+        }
+    }
+
+    private handlePortDetached(port: SerialPortInfo): void {
+        for (const device of this.devices.values()) {
+            if (device.status === DeviceStatus.CONNECTED && device.port === port.path) {
+                this.handleConnectionLost(device.id, new Error('Porta removida'));
+            }
+        }
+    }
+
+    private handlePortAttached(port: SerialPortInfo): void {
+        for (const device of this.devices.values()) {
+            if (device.status === DeviceStatus.CONNECTING && this.isSameBoard(device, port)) {
+                // Placa voltou: tentar logo, reiniciando a espera progressiva
+                this.scheduleReconnect(device.id, RECONNECT_INITIAL_DELAY_MS);
+            }
+        }
+    }
+
+    /**
+     * Detecta se o dispositivo está executando MicroPython
+     */
+    private async detectMicroPython(deviceId: string): Promise<string | undefined> {
+        const command = `
+import sys
+print(sys.implementation.name, '.'.join(str(v) for v in sys.implementation.version[:3]))
+`;
+        try {
+            const result = await this.executeCommand(deviceId, command, 5000);
+            const versionMatch = result.stdout.match(/micropython (\d+\.\d+\.\d+)/);
+            return versionMatch ? versionMatch[1] : undefined;
+        } catch (error) {
+            console.log(`MicroPython não detectado em ${deviceId}:`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Executa código no raw REPL de um dispositivo específico com fila sequencial
+     * 
+     * Problema: Saída de comandos misturada com eco e prompts torna o resultado imprevisível
+     * Solução: Cada comando roda no modo raw, com stdout e stderr separados pelo protocolo
+     * Exemplo: `executeCommand(id, '1/0')` resolve com `exception: true` e o traceback em `stderr`
+     *
+     * Cancelar o token interrompe o código com Ctrl+C e rejeita com `vscode.CancellationError`.
+     * O timeout conta a partir da última saída recebida; `onOutput` recebe a saída ao vivo.
+     */
+    async executeCommand(
+        deviceId: string,
+        command: string,
+        timeoutMs?: number,
+        token?: vscode.CancellationToken,
+        onOutput?: (chunk: CommandOutputChunk) => void
+    ): Promise<CommandResult> {
+        const timeout = timeoutMs ?? this.settings.value.commandTimeout;
+        return this.runInQueue(deviceId, session => session.exec(command, timeout, token, onOutput), token);
+    }
+
+    /**
+     * Executa código e entrega stdout/stderr à medida que chegam
+     *
+     * Problema: Scripts longos só mostravam a saída ao terminar (ou ao estourar o timeout)
+     * Solução: Iterável assíncrono sobre `executeCommand` com `onOutput`; o valor de retorno
+     *          do iterador é o `CommandResult` completo
+     * Exemplo: `for await (const chunk of streamCommand(id, code)) { channel.append(chunk.text); }`
+     */
+    async *streamCommand(
+        deviceId: string,
+        command: string,
+        timeoutMs?: number,
+        token?: vscode.CancellationToken
+    ): AsyncGenerator<CommandOutputChunk, CommandResult> {
+        const chunks: CommandOutputChunk[] = [];
+        let finished = false;
+        let wake: (() => void) | undefined;
+
+        const execution = this.executeCommand(deviceId, command, timeoutMs, token, chunk => {
+            chunks.push(chunk);
+            wake?.();
         });
+        const finish = () => {
+            finished = true;
+            wake?.();
+        };
+        execution.then(finish, finish);
+
+        while (true) {
+            const chunk = chunks.shift();
+            if (chunk) {
+                yield chunk;
+            } else if (finished) {
+                break;
+            } else {
+                await new Promise<void>(resolve => wake = resolve);
+                wake = undefined;
+            }
+        }
+
+        return execution;
     }
 
     /**
-     * Executa comando em um dispositivo específico com fila sequencial
+     * Envia entrada do usuário para o REPL amigável (terminal interativo)
      */
-    async executeCommand(deviceId: string, command: string): Promise<string> {
+    async sendInput(deviceId: string, data: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.runInQueue(deviceId, session => session.writeInput(data), token);
+    }
+
+    /**
+     * Envia bytes ao programa em execução (stdin), sem passar pela fila
+     *
+     * Problema: Enquanto `executeCommand` ocupa a fila, nada mais chega ao dispositivo
+     * Solução: Escreve direto no transporte; o código em execução lê com `sys.stdin`/`input()`
+     * Exemplo: O depurador responde `c\n` ao tracer parado em um breakpoint
+     */
+    async writeToProgram(deviceId: string, data: string): Promise<void> {
         const connection = this.connections.get(deviceId);
-        if (!connection || !connection.isOpen) {
+        if (!connection?.isOpen) {
+            throw new Error('Dispositivo não conectado');
+        }
+
+        this.recordTraffic(deviceId, 'TX', data);
+        await connection.write(data);
+    }
+
+    /**
+     * Registra ouvinte para os dados recebidos no REPL amigável
+     */
+    onReplData(deviceId: string, listener: (data: string) => void): vscode.Disposable {
+        const listeners = this.replListeners.get(deviceId);
+        if (!listeners) {
             throw new Error('Dispositivo não conectado');
         }
 
+        listeners.add(listener);
+        return new vscode.Disposable(() => listeners.delete(listener));
+    }
+
+    /**
+     * Enfileira uma operação para execução exclusiva na sessão do dispositivo
+     *
+     * Problema: Um comando travado segurava listagens, uploads e entrada do REPL atrás dele
+     * Solução: Operações canceladas ainda na fila saem sem tocar no dispositivo; se a operação
+     *          em execução for cancelada, `cancelPolicy` decide se as seguintes continuam na fila
+     * Exemplo: Com "dropQueued", cancelar um script descarta a listagem que esperava por ele
+     */
+    private runInQueue<T>(deviceId: string, operation: (session: RawReplSession) => Promise<T>, token?: vscode.CancellationToken): Promise<T> {
+        if (token?.isCancellationRequested) {
+            return Promise.reject(new vscode.CancellationError());
+        }
+        if (this.devices.get(deviceId)?.status === DeviceStatus.CONNECTING) {
+            return Promise.reject(new Error('Dispositivo reconectando, tente novamente em instantes'));
+        }
+
+        const connection = this.connections.get(deviceId);
+        if (!connection || !connection.isOpen) {
+            return Promise.reject(new Error('Dispositivo não conectado'));
+        }
+
         return new Promise((resolve, reject) => {
             const queue = this.commandQueues.get(deviceId);
             if (queue) {
-                queue.push({ command, resolve, reject });
+                const entry: QueuedOperation = { operation, resolve, reject };
+                entry.cancellation = token?.onCancellationRequested(() => {
+                    const index = queue.indexOf(entry);
+                    if (index !== -1) {
+                        queue.splice(index, 1);
+                        entry.cancellation?.dispose();
+                        reject(new vscode.CancellationError());
+                    }
+                });
+                queue.push(entry);
                 if (!this.isProcessingQueue.get(deviceId)) {
                     this.processCommandQueue(deviceId);
                 }
@@ -192,187 +791,277 @@ export class DeviceManager {
      */
     private async processCommandQueue(deviceId: string): Promise<void> {
         const queue = this.commandQueues.get(deviceId);
-        if (!queue || queue.length === 0) {
+        if (!queue) {
             this.isProcessingQueue.set(deviceId, false);
             return;
         }
 
         this.isProcessingQueue.set(deviceId, true);
-        const { command, resolve, reject } = queue.shift()!;
-        
-        const connection = this.connections.get(deviceId);
-        const parser = this.parsers.get(deviceId);
 
-        if (!connection || !parser) {
-            reject(new Error('Conexão ou parser não encontrado.'));
-            this.processCommandQueue(deviceId);
-            return;
-        }
-
-        let output = '';
-        const onData = (data: string) => {
-            output += data;
-            if (data.includes('>>>') || data.includes('...')) {
-                cleanupAndResolve();
+        while (queue.length > 0) {
+            const { operation, resolve, reject, cancellation } = queue.shift()!;
+            // A sessão é trocada a cada reconexão
+            const session = this.sessions.get(deviceId);
+            if (!session) {
+                cancellation?.dispose();
+                reject(new Error('Dispositivo não conectado'));
+                continue;
             }
-        };
-
-        const timeout = setTimeout(() => {
-            cleanupAndReject(new Error(`Timeout de 10s na execução do comando: ${command.substring(0, 20)}...`));
-        }, 10000);
-
-        const cleanupAndResolve = () => {
-            clearTimeout(timeout);
-            parser.off('data', onData);
-            resolve(output);
-            this.processCommandQueue(deviceId);
-        };
-
-        const cleanupAndReject = (error: Error) => {
-            clearTimeout(timeout);
-            parser.off('data', onData);
-            reject(error);
-            this.processCommandQueue(deviceId);
-        };
+            try {
+                resolve(await operation(session));
+            } catch (error) {
+                reject(error);
+                if (error instanceof vscode.CancellationError && this.settings.value.cancelPolicy === 'dropQueued') {
+                    this.rejectQueued(queue, new vscode.CancellationError());
+                }
+            } finally {
+                cancellation?.dispose();
+            }
+        }
 
-        parser.on('data', onData);
+        this.isProcessingQueue.set(deviceId, false);
+    }
 
-        connection.write(command + '\r\n', (err) => {
-            if (err) {
-                cleanupAndReject(err);
-            }
+    /**
+     * Esvazia a fila rejeitando as operações que ainda não começaram
+     */
+    private rejectQueued(queue: QueuedOperation[], reason: Error): void {
+        queue.splice(0).forEach(({ reject, cancellation }) => {
+            cancellation?.dispose();
+            reject(reason);
         });
     }
 
+    /**
+     * Rejeita com `vscode.CancellationError` se o token já foi cancelado
+     *
+     * Usado entre as etapas de operações compostas que não passam pelo raw REPL
+     * (ex.: protocolo binário de arquivos do WebREPL).
+     */
+    private throwIfCancelled(token?: vscode.CancellationToken): void {
+        if (token?.isCancellationRequested) {
+            throw new vscode.CancellationError();
+        }
+    }
+
     /**
      * Upload de arquivo para ESP32
+     * 
+     * Problema: Enviar o arquivo como uma única string UTF-8 quebra binários (.mpy, certificados) e esgota a RAM
+     * Solução: Transfere blocos de 512 bytes em base64, anexados em modo 'wb', e confere o SHA-256 no dispositivo
+     * Exemplo: `uploadFile(id, 'lib/sensor.mpy', 'lib/sensor.mpy')` cria /lib no dispositivo e valida o hash
      */
-    async uploadFile(deviceId: string, localPath: string, remotePath?: string): Promise<void> {
+    async uploadFile(deviceId: string, localPath: string, remotePath?: string, token?: vscode.CancellationToken): Promise<void> {
         const outputChannel = this.outputChannels.get(deviceId);
         if (!outputChannel) {
             throw new Error('Dispositivo não conectado');
         }
 
         try {
-            const fileContent = fs.readFileSync(localPath, 'utf8');
-            const fileName = remotePath || path.basename(localPath);
+            const fileContent = fs.readFileSync(localPath);
+            const remoteFolder = this.getProfile(deviceId)?.remoteFolder || '/';
+            const targetPath = path.posix.join('/', remotePath || path.posix.join(remoteFolder, path.basename(localPath)));
+            const localHash = crypto.createHash('sha256').update(fileContent).digest('hex');
             
             outputChannel.show();
-            outputChannel.appendLine(`\n=== Upload ${fileName} ===`);
-            
-            await this.executeCommand(deviceId, '\x01'); // Raw mode
-            
-            const writeCommand = `
-import ujson
-with open('${fileName}', 'w') as f:
-    f.write(ujson.loads(${JSON.stringify(JSON.stringify(fileContent))}))
+            outputChannel.appendLine(`\n=== Upload ${targetPath} (${fileContent.length} bytes) ===`);
+
+            // Toda a transferência ocupa a fila de uma vez, sem intercalar outros comandos
+            const remote = await this.runInQueue(deviceId, async session => {
+                const mkdirCommand = `
+import os
+_mpm_dir = ''
+for _mpm_part in ${JSON.stringify(targetPath)}.split('/')[1:-1]:
+    _mpm_dir += '/' + _mpm_part
+    try:
+        os.mkdir(_mpm_dir)
+    except OSError:
+        pass
+del _mpm_dir
 `;
-            await this.executeCommand(deviceId, writeCommand);
-            await this.executeCommand(deviceId, '\x02'); // Exit raw mode
-            
-            const checkOutput = await this.executeCommand(deviceId, `import os; print('${fileName}' in os.listdir())`);
-            
-            if (checkOutput.includes('True')) {
-                outputChannel.appendLine(`=== Upload concluído: ${fileName} ===\n`);
-            } else {
-                throw new Error('Falha na verificação do upload do arquivo.');
+                await this.execOrThrow(session, mkdirCommand, token);
+
+                // Transportes com protocolo próprio de arquivos (ex.: WebREPL) dispensam o base64
+                const transport = this.connections.get(deviceId);
+                if (transport?.putFile) {
+                    await transport.putFile(targetPath, fileContent);
+                    this.throwIfCancelled(token);
+                    return this.hashRemoteFile(session, targetPath, token);
+                }
+
+                await this.execOrThrow(session, `import ubinascii\n_mpm_f = open(${JSON.stringify(targetPath)}, 'wb')`, token);
+
+                try {
+                    for (let offset = 0; offset < fileContent.length; offset += TRANSFER_CHUNK_SIZE) {
+                        const chunk = fileContent.subarray(offset, offset + TRANSFER_CHUNK_SIZE).toString('base64');
+                        await this.execOrThrow(session, `_mpm_f.write(ubinascii.a2b_base64('${chunk}'))`, token);
+                    }
+                } finally {
+                    await session.exec('_mpm_f.close()\ndel _mpm_f').catch(() => undefined);
+                }
+
+                return this.hashRemoteFile(session, targetPath, token);
+            }, token);
+
+            if (remote.size !== fileContent.length) {
+                throw new Error(`Tamanho divergente no dispositivo (${remote.size} de ${fileContent.length} bytes).`);
+            }
+            if (remote.sha256 && remote.sha256 !== localHash) {
+                throw new Error('SHA-256 do arquivo no dispositivo não confere com o arquivo local.');
+            }
+
+            if (!remote.sha256) {
+                outputChannel.appendLine('Aviso: firmware sem hashlib.sha256, verificado apenas o tamanho.');
+            }
+            outputChannel.appendLine(`=== Upload concluído: ${targetPath} (sha256 ${localHash}) ===\n`);
+            if (!this.uploadSources.has(deviceId)) {
+                this.uploadSources.set(deviceId, new Map());
             }
+            this.uploadSources.get(deviceId)!.set(targetPath, path.resolve(localPath));
+            this._onDidChangeFiles.fire({ deviceId, path: path.posix.dirname(targetPath) });
             
         } catch (error) {
-            await this.executeCommand(deviceId, '\x02');
+            if (error instanceof vscode.CancellationError) {
+                outputChannel.appendLine('=== Upload cancelado ===\n');
+                throw error;
+            }
             throw new Error(`Erro no upload: ${error}`);
         }
     }
 
     /**
-     * Download de arquivo do ESP32
+     * Arquivo local que originou um caminho remoto enviado nesta sessão
+     *
+     * Caminhos relativos (como aparecem nos tracebacks) são relativos à raiz do dispositivo.
      */
-    async downloadFile(deviceId: string, remotePath: string, localPath: string): Promise<void> {
-        const connection = this.connections.get(deviceId);
-        if (!connection || !connection.isOpen) {
-            throw new Error('Dispositivo não conectado');
+    getUploadSource(deviceId: string, remotePath: string): string | undefined {
+        return this.uploadSources.get(deviceId)?.get(path.posix.join('/', remotePath));
+    }
+
+    /**
+     * Calcula tamanho e SHA-256 de um arquivo no dispositivo
+     */
+    private async hashRemoteFile(session: RawReplSession, remotePath: string, token?: vscode.CancellationToken): Promise<{ size: number, sha256?: string }> {
+        const command = `
+import os, ubinascii
+_mpm_size = os.stat(${JSON.stringify(remotePath)})[6]
+try:
+    import hashlib
+    _mpm_h = hashlib.sha256()
+    with open(${JSON.stringify(remotePath)}, 'rb') as _mpm_f:
+        while True:
+            _mpm_b = _mpm_f.read(${TRANSFER_CHUNK_SIZE})
+            if not _mpm_b:
+                break
+            _mpm_h.update(_mpm_b)
+    print(_mpm_size, ubinascii.hexlify(_mpm_h.digest()).decode())
+    del _mpm_h, _mpm_f, _mpm_b
+except (ImportError, AttributeError):
+    print(_mpm_size)
+del _mpm_size
+`;
+        const result = await this.execOrThrow(session, command, token);
+        const [size, sha256] = result.stdout.trim().split(/\s+/);
+        return { size: parseInt(size), sha256 };
+    }
+
+    /**
+     * Executa código na sessão e converte exceções do dispositivo em erro
+     */
+    private async execOrThrow(session: RawReplSession, code: string, token?: vscode.CancellationToken): Promise<CommandResult> {
+        const result = await session.exec(code, this.settings.value.transferTimeout, token);
+        if (result.exception) {
+            throw new Error(result.stderr.trim());
         }
+        return result;
+    }
 
-        return new Promise((resolve, reject) => {
-            let fileContent = '';
-            let isCapturingContent = false;
-            
-            const parser = this.parsers.get(deviceId);
-            if (!parser) {
-                reject(new Error('Parser não encontrado'));
-                return;
-            }
+    /**
+     * Download de arquivo do ESP32
+     */
+    async downloadFile(deviceId: string, remotePath: string, localPath: string, token?: vscode.CancellationToken): Promise<void> {
+        const content = await this.readFile(deviceId, remotePath, token);
+        fs.writeFileSync(localPath, content);
+    }
 
-            const timeout = setTimeout(() => {
-                parser.off('data', onData);
-                reject(new Error('Timeout ao baixar arquivo'));
-            }, 30000);
+    /**
+     * Lê o conteúdo exato de um arquivo do dispositivo
+     * 
+     * Problema: Reconstruir o arquivo a partir de linhas impressas perde quebras de linha e bytes binários
+     * Solução: Lê blocos em modo 'rb', transfere em base64 e confere tamanho e SHA-256 ao final
+     * Exemplo: Um certificado .der baixado é idêntico, byte a byte, ao arquivo no dispositivo
+     */
+    async readFile(deviceId: string, remotePath: string, token?: vscode.CancellationToken): Promise<Buffer> {
+        return this.runInQueue(deviceId, async session => {
+            const transport = this.connections.get(deviceId);
+            const content = transport?.getFile
+                ? await transport.getFile(remotePath)
+                : await this.readFileChunks(session, remotePath, token);
+            this.throwIfCancelled(token);
+            const remote = await this.hashRemoteFile(session, remotePath, token);
 
-            const onData = (data: string) => {
-                if (data.includes('FILE_CONTENT_START')) {
-                    isCapturingContent = true;
-                    fileContent = '';
-                    return;
-                }
-                
-                if (data.includes('FILE_CONTENT_END')) {
-                    clearTimeout(timeout);
-                    parser.off('data', onData);
-                    
-                    try {
-                        fs.writeFileSync(localPath, fileContent);
-                        resolve();
-                    } catch (error) {
-                        reject(error);
-                    }
-                    return;
-                }
-                
-                if (isCapturingContent) {
-                    fileContent += data;
-                }
-            };
+            if (remote.size !== content.length) {
+                throw new Error(`Tamanho divergente no download de ${remotePath} (${content.length} de ${remote.size} bytes).`);
+            }
+            if (remote.sha256 && remote.sha256 !== crypto.createHash('sha256').update(content).digest('hex')) {
+                throw new Error(`SHA-256 do download de ${remotePath} não confere com o arquivo no dispositivo.`);
+            }
 
-            parser.on('data', onData);
+            return content;
+        }, token);
+    }
 
-            const command = `
-try:
-    print("FILE_CONTENT_START")
-    with open("${remotePath.replace(/"/g, '\\"')}", "r") as f:
-        content = f.read()
-        print(content, end="")
-    print("FILE_CONTENT_END")
-except Exception as e:
-    print("FILE_CONTENT_START")
-    print("ERRO:", str(e))
-    print("FILE_CONTENT_END")
+    /**
+     * Lê o arquivo em blocos base64 pelo raw REPL
+     */
+    private async readFileChunks(session: RawReplSession, remotePath: string, token?: vscode.CancellationToken): Promise<Buffer> {
+        const openCommand = `
+import ubinascii
+_mpm_f = open(${JSON.stringify(remotePath)}, 'rb')
 `;
+        await this.execOrThrow(session, openCommand, token);
 
-            connection.write(command, (error) => {
-                if (error) {
-                    clearTimeout(timeout);
-                    parser.off('data', onData);
-                    reject(error);
+        const chunks: Buffer[] = [];
+        try {
+            while (true) {
+                const result = await this.execOrThrow(
+                    session,
+                    `print(ubinascii.b2a_base64(_mpm_f.read(${TRANSFER_CHUNK_SIZE})).decode().strip())`,
+                    token
+                );
+                const chunk = Buffer.from(result.stdout.trim(), 'base64');
+                if (chunk.length === 0) {
+                    break;
                 }
-            });
-        });
+                chunks.push(chunk);
+            }
+        } finally {
+            await session.exec('_mpm_f.close()\ndel _mpm_f').catch(() => undefined);
+        }
+
+        return Buffer.concat(chunks);
     }
 
     /**
      * Deleta arquivo do ESP32
      */
-    async deleteFile(deviceId: string, filePath: string, isDirectory: boolean = false): Promise<void> {
+    async deleteFile(deviceId: string, filePath: string, isDirectory: boolean = false, token?: vscode.CancellationToken): Promise<void> {
         const command = isDirectory 
             ? `import os; os.rmdir('${filePath}')`
             : `import os; os.remove('${filePath}')`;
         
-        await this.executeCommand(deviceId, command);
+        const result = await this.executeCommand(deviceId, command, undefined, token);
+        if (result.exception) {
+            throw new Error(result.stderr.trim());
+        }
+
+        this._onDidChangeFiles.fire({ deviceId, path: path.posix.dirname(filePath) });
     }
 
     /**
      * Lista arquivos do dispositivo
      */
-    async listFiles(deviceId: string, dirPath: string = '/'): Promise<void> {
+    async listFiles(deviceId: string, dirPath: string = '/', token?: vscode.CancellationToken): Promise<void> {
         const outputChannel = this.outputChannels.get(deviceId);
         if (!outputChannel) {
             throw new Error('Dispositivo não conectado');
@@ -396,49 +1085,259 @@ except Exception as e:
     print("Erro:", e)
 `;
         
-        await this.executeCommand(deviceId, command);
+        const result = await this.executeCommand(deviceId, command, undefined, token);
+        outputChannel.append(result.stdout);
         outputChannel.appendLine('=== Fim da listagem ===\n');
     }
 
     /**
      * Obtém informações de memória
      */
-    async getMemoryInfo(deviceId: string): Promise<void> {
+    async getMemoryInfo(deviceId: string, token?: vscode.CancellationToken): Promise<void> {
         const outputChannel = this.outputChannels.get(deviceId);
         if (!outputChannel) {
             throw new Error('Dispositivo não conectado');
         }
         
-        const command = `
-import gc
-gc.collect()
-free = gc.mem_free()
-alloc = gc.mem_alloc()
-total = free + alloc
-print("Memória Total: {:.2f} KB".format(total/1024))
-print("Memória Usada: {:.2f} KB".format(alloc/1024))
-print("Memória Livre: {:.2f} KB ({:.2f}%)".format(free/1024, free/total*100))
-`;
-        const output = await this.executeCommand(deviceId, command);
+        const { free, total } = await this.sampleMemory(deviceId, token);
+        const kb = (bytes: number) => (bytes / 1024).toFixed(2);
         
         outputChannel.show();
         outputChannel.appendLine('\n=== Informações de Memória ===');
-        const cleanOutput = output.split('\n').slice(1, -1).join('\n');
-        outputChannel.appendLine(cleanOutput);
+        outputChannel.appendLine(`Memória Total: ${kb(total)} KB`);
+        outputChannel.appendLine(`Memória Usada: ${kb(total - free)} KB`);
+        outputChannel.appendLine(`Memória Livre: ${kb(free)} KB (${(free / total * 100).toFixed(2)}%)`);
         outputChannel.appendLine('============================\n');
     }
 
+    /**
+     * Lê as informações de hardware e firmware do dispositivo
+     *
+     * Problema: Só a versão do MicroPython era conhecida; o resto vinha como texto formatado no canal de saída
+     * Solução: Um único script monta um JSON com `sys.implementation`, `os.uname`, `unique_id`, CPU,
+     *          flash, `os.statvfs('/')`, heap e `ticks_ms`; cada item é opcional no firmware
+     * Exemplo: `(await getDeviceInfo(id)).filesystem?.free` é o espaço livre em bytes
+     */
+    async getDeviceInfo(deviceId: string, token?: vscode.CancellationToken): Promise<DeviceInfo> {
+        const command = `
+def _mpm_info():
+    import sys, gc
+    impl = sys.implementation
+    info = {'impl': [impl.name, '.'.join(str(v) for v in impl.version[:3]), getattr(impl, '_machine', None), getattr(impl, '_mpy', None)]}
+    try:
+        import os
+        uname = os.uname()
+        info['machine'] = uname.machine
+        info['release'] = uname.release
+        stat = os.statvfs('/')
+        info['fs'] = [stat[0] * stat[2], stat[0] * stat[3]]
+    except Exception:
+        pass
+    try:
+        import machine, ubinascii
+        info['uid'] = ubinascii.hexlify(machine.unique_id()).decode()
+        freq = machine.freq()
+        info['freq'] = freq[0] if isinstance(freq, tuple) else freq
+    except Exception:
+        pass
+    try:
+        import esp
+        info['flash'] = esp.flash_size()
+    except Exception:
+        pass
+    try:
+        import time
+        info['ticks'] = time.ticks_ms()
+    except Exception:
+        pass
+    gc.collect()
+    info['mem'] = [gc.mem_free(), gc.mem_alloc()]
+    return info
+import json
+print(json.dumps(_mpm_info()))
+del _mpm_info
+`;
+        const result = await this.executeCommand(deviceId, command, undefined, token);
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(result.stdout.trim());
+        } catch {
+            throw new Error(`Leitura de informações inválida: ${result.stderr || result.stdout}`);
+        }
+        const raw = parseRawDeviceInfo(parsed);
+
+        const [name, version, machine, mpy] = raw.impl;
+        const [free, allocated] = raw.mem;
+        const info: DeviceInfo = {
+            implementation: { name, version, machine: machine ?? undefined, mpy: mpy ?? undefined },
+            machine: raw.machine,
+            release: raw.release,
+            uniqueId: raw.uid,
+            cpuFrequency: raw.freq,
+            flashSize: raw.flash,
+            filesystem: raw.fs ? { total: raw.fs[0], free: raw.fs[1] } : undefined,
+            memory: { free, allocated },
+            uptimeMs: raw.ticks,
+            readAt: new Date()
+        };
+
+        const device = this.devices.get(deviceId);
+        if (device) {
+            device.info = info;
+            device.memoryFree = free;
+            device.memoryTotal = free + allocated;
+            this._onDidChangeInfo.fire(device);
+        }
+        return info;
+    }
+
+    /**
+     * Lê o heap após coleta de lixo e guarda o resultado no dispositivo
+     */
+    async sampleMemory(deviceId: string, token?: vscode.CancellationToken): Promise<{ free: number, total: number }> {
+        const result = await this.executeCommand(deviceId, 'import gc\ngc.collect()\nprint(gc.mem_free(), gc.mem_alloc())', undefined, token);
+        const [free, alloc] = result.stdout.trim().split(/\s+/).map(Number);
+        if (result.exception || isNaN(free) || isNaN(alloc)) {
+            throw new Error(`Leitura de memória inválida: ${result.stderr || result.stdout}`);
+        }
+
+        const device = this.devices.get(deviceId);
+        if (device) {
+            device.memoryFree = free;
+            device.memoryTotal = free + alloc;
+            if (device.info) {
+                device.info.memory = { free, allocated: alloc };
+            }
+            this._onDidChangeInfo.fire(device);
+        }
+        return { free, total: free + alloc };
+    }
+
+    /**
+     * Amostra o heap sem atrapalhar o REPL (leituras periódicas do monitor de memória)
+     *
+     * Problema: Entrar no modo raw interrompe com Ctrl+C o que roda no REPL e, ao voltar,
+     *          imprime o banner no terminal do usuário
+     * Solução: Passa pela fila como qualquer comando; com o REPL amigável ativo, só executa se ele
+     *          estiver ocioso no prompt e volta a ele com `execQuietly`
+     * Exemplo: Com um laço rodando no REPL a amostra é pulada e o retorno é `undefined`
+     *
+     * Não dispara `onDidChangeInfo` (o painel do dispositivo seria redesenhado a cada amostra);
+     * quem exibe as amostras acompanha `MemoryMonitor.onDidSample`.
+     */
+    async sampleHeap(deviceId: string, token?: vscode.CancellationToken): Promise<HeapSample | undefined> {
+        const command = `
+import gc, sys
+gc.collect()
+print(gc.mem_free(), gc.mem_alloc())
+try:
+    import micropython
+    print('block', 32 if sys.maxsize > 2 ** 32 else 16)
+    micropython.mem_info()
+except Exception:
+    pass
+`;
+        const result = await this.runInQueue(deviceId, async session => {
+            if (!session.isRawMode && this.replTails.get(deviceId) !== REPL_PROMPT) {
+                return undefined;
+            }
+            return session.execQuietly(command, this.settings.value.commandTimeout, token);
+        }, token);
+        if (!result) {
+            return undefined;
+        }
+
+        const [free, allocated] = result.stdout.trim().split(/\s+/, 2).map(Number);
+        if (result.exception || isNaN(free) || isNaN(allocated)) {
+            throw new Error(`Leitura de memória inválida: ${result.stderr || result.stdout}`);
+        }
+
+        const sample: HeapSample = { time: Date.now(), free, allocated };
+        // mem_info() informa o maior bloco livre em blocos do GC
+        const blockSize = result.stdout.match(/^block (\d+)/m);
+        const maxFree = result.stdout.match(/max free sz: (\d+)/);
+        if (blockSize && maxFree && free > 0) {
+            sample.largestFree = Math.min(free, Number(maxFree[1]) * Number(blockSize[1]));
+            sample.fragmentation = 1 - sample.largestFree / free;
+        }
+
+        const device = this.devices.get(deviceId);
+        if (device) {
+            device.memoryFree = free;
+            device.memoryTotal = free + allocated;
+            if (device.info) {
+                device.info.memory = { free, allocated };
+            }
+        }
+        return sample;
+    }
+
+    /**
+     * Aplica mudanças de configuração aos dispositivos já conectados
+     */
+    private applySettings(): void {
+        const { autoReconnect, memoryMonitoring, sessionLogging, sessionLogMaxSize, sessionLogMaxFiles } = this.settings.value;
+
+        this.sessionLogs.forEach(log => log.updateOptions({ maxSize: sessionLogMaxSize, maxFiles: sessionLogMaxFiles }));
+        for (const device of Array.from(this.devices.values())) {
+            if (sessionLogging) {
+                this.startSessionLog(device.id);
+            } else {
+                this.stopSessionLog(device.id, 'Log de sessão desativado');
+            }
+        }
+
+        for (const device of Array.from(this.devices.values())) {
+            if (!autoReconnect && device.status === DeviceStatus.CONNECTING) {
+                // Reconexão desativada: encerrar tentativas pendentes
+                this.disconnectDevice(device.id);
+            } else if (memoryMonitoring && device.isConnected && device.memoryFree === undefined) {
+                this.sampleMemory(device.id).catch(error => console.log(`Erro ao ler memória de ${device.id}:`, error));
+            }
+        }
+    }
+
     /**
      * Reset do dispositivo
      */
-    async resetDevice(deviceId: string): Promise<void> {
+    async resetDevice(deviceId: string, token?: vscode.CancellationToken): Promise<void> {
         const outputChannel = this.outputChannels.get(deviceId);
         if (!outputChannel) {
             throw new Error('Dispositivo não conectado');
         }
         
         outputChannel.appendLine('Enviando comando de soft reset (Ctrl+D)...');
-        await this.executeCommand(deviceId, '\x04');
+        await this.sendInput(deviceId, '\x04', token);
+        outputChannel.appendLine('Reset enviado.');
+    }
+
+    /**
+     * Reset por hardware pelas linhas de controle, como o esptool faz
+     *
+     * Problema: O soft reset (Ctrl+D) não recupera uma placa travada que não responde ao REPL
+     * Solução: Com DTR desligado (GPIO0 alto, boot normal), liga RTS (EN em nível baixo) por
+     *          100 ms e solta; o banner de boot chega no REPL amigável
+     * Exemplo: Funciona em portas seriais e em `rfc2217://`; TCP bruto, WebREPL e o unix port não têm DTR/RTS
+     */
+    async hardReset(deviceId: string, token?: vscode.CancellationToken): Promise<void> {
+        const outputChannel = this.outputChannels.get(deviceId);
+        const transport = this.connections.get(deviceId);
+        if (!outputChannel || !transport) {
+            throw new Error('Dispositivo não conectado');
+        }
+        if (!transport.hasControlLines) {
+            throw new Error(`${transport.description} não tem linhas DTR/RTS; use o soft reset`);
+        }
+
+        outputChannel.appendLine('Reset por hardware (RTS)...');
+        this.sessionLogs.get(deviceId)?.note('Reset por hardware');
+        await this.runInQueue(deviceId, async session => {
+            // A placa volta no REPL amigável
+            await session.exitRawMode();
+            await transport.setSignals({ dtr: false, rts: true });
+            await this.delay(HARD_RESET_PULSE_MS);
+            await transport.setSignals({ dtr: false, rts: false });
+        }, token);
         outputChannel.appendLine('Reset enviado.');
     }
 
@@ -451,27 +1350,53 @@ print("Memória Livre: {:.2f} KB ({:.2f}%)".format(free/1024, free/total*100))
             return;
         }
 
-        const connection = this.connections.get(deviceId);
         const outputChannel = this.outputChannels.get(deviceId);
 
-        if (connection && connection.isOpen) {
-            connection.close();
+        // Cancelar reconexão em andamento
+        const reconnectTimer = this.reconnectTimers.get(deviceId);
+        if (reconnectTimer) {
+            clearTimeout(reconnectTimer);
+            this.reconnectTimers.delete(deviceId);
         }
 
+        // Rejeitar operações pendentes e encerrar a sessão raw REPL
+        await this.closeTransport(deviceId, 'Dispositivo desconectado');
+
         if (outputChannel) {
             outputChannel.dispose();
         }
+        this.stopSessionLog(deviceId, 'Desconectado');
 
         this.devices.delete(deviceId);
-        this.connections.delete(deviceId);
         this.parsers.delete(deviceId);
+        this.replListeners.delete(deviceId);
+        this.replTails.delete(deviceId);
         this.outputChannels.delete(deviceId);
         this.commandQueues.delete(deviceId);
         this.isProcessingQueue.delete(deviceId);
+        this.connectOptions.delete(deviceId);
+
+        device.isConnected = false;
+        device.status = DeviceStatus.DISCONNECTED;
+        this._onDidDisconnect.fire(device);
 
         vscode.window.showInformationMessage(`Desconectado do ${device.name}`);
     }
 
+    /**
+     * Atualiza o estado de um dispositivo e notifica os ouvintes
+     */
+    private setStatus(deviceId: string, status: DeviceStatus): void {
+        const device = this.devices.get(deviceId);
+        if (!device || device.status === status) {
+            return;
+        }
+
+        device.status = status;
+        device.isConnected = status === DeviceStatus.CONNECTED;
+        this._onDidChangeStatus.fire(device);
+    }
+
     /**
      * Desconecta todos os dispositivos
      */
@@ -502,6 +1427,58 @@ print("Memória Livre: {:.2f} KB ({:.2f}%)".format(free/1024, free/total*100))
         return this.outputChannels.get(deviceId);
     }
 
+    /**
+     * Grava o que está pendente no log de sessão e retorna o caminho do arquivo atual
+     */
+    async flushSessionLog(deviceId: string): Promise<string | undefined> {
+        const log = this.sessionLogs.get(deviceId);
+        await log?.flush();
+        return log?.filePath;
+    }
+
+    /**
+     * Pasta onde os logs de sessão são gravados, conforme `sessionLogLocation`
+     */
+    getSessionLogDirectory(): string {
+        return sessionLogDirectory(this.context, this.settings.value.sessionLogLocation);
+    }
+
+    /**
+     * Ponto único de passagem do tráfego: log de sessão e inspetor (`onDidTransferData`)
+     */
+    private recordTraffic(deviceId: string, direction: TrafficDirection, data: string | Buffer): void {
+        this.sessionLogs.get(deviceId)?.record(direction, data);
+        this._onDidTransferData.fire({
+            deviceId,
+            direction,
+            data: typeof data === 'string' ? Buffer.from(data, 'utf8') : data,
+            time: new Date()
+        });
+    }
+
+    private startSessionLog(deviceId: string): void {
+        const { sessionLogging, sessionLogMaxSize, sessionLogMaxFiles } = this.settings.value;
+        if (!sessionLogging || this.sessionLogs.has(deviceId)) {
+            return;
+        }
+
+        const log = new SessionLog(
+            path.join(this.getSessionLogDirectory(), `${deviceId}.log`),
+            { maxSize: sessionLogMaxSize, maxFiles: sessionLogMaxFiles }
+        );
+        log.note('Sessão iniciada');
+        this.sessionLogs.set(deviceId, log);
+    }
+
+    private stopSessionLog(deviceId: string, reason: string): void {
+        const log = this.sessionLogs.get(deviceId);
+        if (log) {
+            log.note(reason);
+            log.close();
+            this.sessionLogs.delete(deviceId);
+        }
+    }
+
     /**
      * Obtém parser de um dispositivo
      */
@@ -512,117 +1489,69 @@ print("Memória Livre: {:.2f} KB ({:.2f}%)".format(free/1024, free/total*100))
     /**
      * Obtém estrutura de arquivos do ESP32
      */
-    async getFileStructure(deviceId: string, dirPath: string = '/'): Promise<ESP32File[]> {
-        const connection = this.connections.get(deviceId);
-        if (!connection || !connection.isOpen) {
-            throw new Error('Dispositivo não conectado');
-        }
-
-        return new Promise((resolve, reject) => {
-            const files: ESP32File[] = [];
-            let responseData = '';
-            let isCapturingOutput = false;
-            
-            const parser = this.parsers.get(deviceId);
-            if (!parser) {
-                reject(new Error('Parser não encontrado'));
-                return;
-            }
+    async getFileStructure(deviceId: string, dirPath: string = '/', token?: vscode.CancellationToken): Promise<ESP32File[]> {
+        const normalizedPath = dirPath.replace(/\/+/g, '/').replace(/\/$/, '') || '/';
+        
+        const command = `
+import os
+dir_path = "${normalizedPath.replace(/"/g, '\\"')}"
+if dir_path == "/":
+    dir_path = ""
+files = os.listdir("/" if dir_path == "" else dir_path)
+for f in sorted(files):
+    full_path = ("/" + f) if dir_path == "" else (dir_path + "/" + f)
+    try:
+        stat_info = os.stat(full_path)
+        if stat_info[0] & 0x4000:  # S_IFDIR
+            print(f + "|DIR|N/A")
+        else:
+            print(f + "|FILE|" + str(stat_info[6]))
+    except:
+        print(f + "|FILE|0")
+`;
 
-            const timeout = setTimeout(() => {
-                parser.off('data', onData);
-                reject(new Error('Timeout ao listar arquivos'));
-            }, 15000);
+        const result = await this.executeCommand(deviceId, command, this.settings.value.fileListTimeout, token);
+        if (result.exception) {
+            throw new Error(`Falha ao listar ${normalizedPath}: ${result.stderr.trim()}`);
+        }
 
-            const onData = (data: string) => {
-                if (data.includes('FILE_LIST_START')) {
-                    isCapturingOutput = true;
-                    responseData = '';
-                    return;
-                }
+        const files: ESP32File[] = [];
+        for (const line of result.stdout.split('\n')) {
+            const parts = line.trim().split('|');
+            if (parts.length >= 2) {
+                const fileName = parts[0];
+                const fileType = parts[1];
+                const size = parts[2] !== 'N/A' ? parseInt(parts[2]) : undefined;
                 
-                if (data.includes('FILE_LIST_END')) {
-                    clearTimeout(timeout);
-                    parser.off('data', onData);
-                    
-                    const lines = responseData.split('\n');
-                    for (const line of lines) {
-                        const trimmed = line.trim();
-                        if (trimmed && !trimmed.includes('FILE_LIST') && trimmed.length > 0) {
-                            try {
-                                const parts = trimmed.split('|');
-                                if (parts.length >= 2) {
-                                    const fileName = parts[0];
-                                    const fileType = parts[1];
-                                    const size = parts[2] !== 'N/A' ? parseInt(parts[2]) : undefined;
-                                    
-                                    files.push({
-                                        name: fileName,
-                                        path: dirPath === '/' ? `/${fileName}` : `${dirPath}/${fileName}`,
-                                        isDirectory: fileType === 'DIR',
-                                        size: size,
-                                        deviceId: deviceId
-                                    });
-                                }
-                            } catch (e) {
-                                console.log('Erro ao processar linha:', trimmed, e);
-                            }
-                        }
-                    }
-                    
-                    resolve(files);
-                    return;
-                }
-                
-                if (isCapturingOutput) {
-                    responseData += data;
-                }
-            };
-
-            parser.on('data', onData);
-
-            const normalizedPath = dirPath.replace(/\/+/g, '/').replace(/\/$/, '') || '/';
-            
-            const command = `
-try:
-    import os
-    print("FILE_LIST_START")
-    dir_path = "${normalizedPath.replace(/"/g, '\\"')}"
-    if dir_path == "/":
-        dir_path = ""
-    files = os.listdir("/" if dir_path == "" else dir_path)
-    for f in sorted(files):
-        full_path = ("/" + f) if dir_path == "" else (dir_path + "/" + f)
-        try:
-            stat_info = os.stat(full_path)
-            if stat_info[0] & 0x4000:  # S_IFDIR
-                print(f + "|DIR|N/A")
-            else:
-                print(f + "|FILE|" + str(stat_info[6]))
-        except:
-            print(f + "|FILE|0")
-    print("FILE_LIST_END")
-except Exception as e:
-    print("FILE_LIST_START")
-    print("ERRO: " + str(e))
-    print("FILE_LIST_END")
-`;
+                files.push({
+                    name: fileName,
+                    path: dirPath === '/' ? `/${fileName}` : `${dirPath}/${fileName}`,
+                    isDirectory: fileType === 'DIR',
+                    size: size,
+                    deviceId: deviceId
+                });
+            }
+        }
 
-            connection.write(command, (error) => {
-                if (error) {
-                    clearTimeout(timeout);
-                    parser.off('data', onData);
-                    reject(error);
-                }
-            });
-        });
+        return files;
     }
 
     /**
      * Limpa recursos ao desativar a extensão
      */
     dispose(): void {
+        this.watcherSubscriptions.forEach(subscription => subscription.dispose());
         this.disconnectAll();
+        this.sessionLogs.forEach(log => log.close());
+        this.sessionLogs.clear();
+        this.profiles.dispose();
+        this._onDidConnect.dispose();
+        this._onDidDisconnect.dispose();
+        this._onDidChangeStatus.dispose();
+        this._onDidChangeFiles.dispose();
+        this._onDidChangeInfo.dispose();
+        this._onDidReceiveLine.dispose();
+        this._onDidTransferData.dispose();
     }
 
     private delay(ms: number): Promise<void> {
@@ -1,7 +1,7 @@
 import * as vscode from 'vscode';
 import { SerialPort } from 'serialport';
 import { ReadlineParser } from '@serialport/parser-readline';
-import { ESP32Device, SerialPortInfo, ESP32File } from './types';
+import { ESP32Device, SerialPortInfo, ESP32File, DeviceStatus } from './types';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -101,6 +101,7 @@ export class DeviceManager {
                     port: portPath,
                     baudRate,
                     isConnected: true,
+                    status: DeviceStatus.CONNECTED,
                     micropythonVersion,
                     lastActivity: new Date()
                 };
@@ -0,0 +1,63 @@
+import * as vscode from 'vscode';
+import { DeviceProfile } from './types';
+
+/** Chave dos perfis no globalState */
+const PROFILES_STATE_KEY = 'micropython-manager.deviceProfiles';
+
+/**
+ * Perfis de placas persistidos entre sessões
+ *
+ * Problema: O ID do dispositivo vinha do caminho da porta, que muda a cada enumeração USB
+ * Solução: Guarda no globalState um perfil por placa, identificado pelo número de série USB
+ *          ou por `machine.unique_id()`, com nome, baudrate, tipo, notas e pasta remota
+ * Exemplo: A placa "Estufa" continua com esse nome ao voltar como /dev/ttyUSB1
+ */
+export class DeviceProfileStore implements vscode.Disposable {
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    constructor(private state: vscode.Memento) {}
+
+    /**
+     * Monta a chave estável do perfil a partir da identificação disponível
+     */
+    static keyFor(serialNumber?: string, uniqueId?: string): string | undefined {
+        if (serialNumber) {
+            return `usb:${serialNumber}`;
+        }
+        if (uniqueId) {
+            return `uid:${uniqueId}`;
+        }
+        return undefined;
+    }
+
+    getAll(): DeviceProfile[] {
+        return Object.values(this.read());
+    }
+
+    get(key: string): DeviceProfile | undefined {
+        return this.read()[key];
+    }
+
+    async save(profile: DeviceProfile): Promise<void> {
+        const profiles = this.read();
+        profiles[profile.key] = profile;
+        await this.state.update(PROFILES_STATE_KEY, profiles);
+        this._onDidChange.fire();
+    }
+
+    async remove(key: string): Promise<void> {
+        const profiles = this.read();
+        delete profiles[key];
+        await this.state.update(PROFILES_STATE_KEY, profiles);
+        this._onDidChange.fire();
+    }
+
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+
+    private read(): Record<string, DeviceProfile> {
+        return { ...this.state.get<Record<string, DeviceProfile>>(PROFILES_STATE_KEY, {}) };
+    }
+}
@@ -1,6 +1,16 @@
 import * as vscode from 'vscode';
-import { ESP32Device, DeviceStatus, DeviceTreeItem, ESP32File } from './types';
+import { ESP32Device, DeviceStatus, DeviceTreeItem, ESP32File, DeviceProfile } from './types';
 import { DeviceManager } from './deviceManager';
+import { describeDeviceInfo } from './deviceDashboard';
+import * as path from 'path';
+
+/** Rótulos exibidos no tooltip para cada estado */
+const STATUS_LABELS: Record<DeviceStatus, string> = {
+    [DeviceStatus.DISCONNECTED]: 'Desconectado',
+    [DeviceStatus.CONNECTING]: 'Conectando...',
+    [DeviceStatus.CONNECTED]: 'Conectado',
+    [DeviceStatus.ERROR]: 'Erro'
+};
 
 /**
  * Provider para visualização em árvore dos dispositivos ESP32
@@ -9,66 +19,89 @@ import { DeviceManager } from './deviceManager';
  * Solução: TreeDataProvider customizado que mostra status e permite ações
  * Exemplo: Lista dispositivos conectados com ícones de status e botões de ação
  */
-export class DeviceTreeProvider implements vscode.TreeDataProvider<DeviceTreeItem> {
+export class DeviceTreeProvider implements vscode.TreeDataProvider<DeviceTreeItem>, vscode.Disposable {
     private _onDidChangeTreeData: vscode.EventEmitter<DeviceTreeItem | undefined | null | void> = new vscode.EventEmitter<DeviceTreeItem | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<DeviceTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
     
     // Cache de arquivos por dispositivo
     private fileCache: Map<string, ESP32File[]> = new Map();
 
+    // Itens reaproveitados entre leituras: o VS Code só redesenha um nó se receber o mesmo objeto
+    private deviceItems: Map<string, DeviceTreeItem> = new Map();
+    private directoryItems: Map<string, DeviceTreeItem> = new Map();
+
+    private disposables: vscode.Disposable[] = [];
+
     constructor(private deviceManager: DeviceManager) {
-        // Escutar mudanças nos dispositivos e atualizar a árvore
-        setInterval(() => {
-            this.refresh();
-        }, 3000); // Atualizar a cada 3 segundos
-        
-        // Escutar mudanças do device manager
-        this.setupDeviceChangeListener();
+        // Atualizações dirigidas por eventos do DeviceManager, sem polling na serial
+        this.disposables.push(
+            deviceManager.onDidConnect(() => this.refresh()),
+            deviceManager.onDidDisconnect(device => this.removeDevice(device.id)),
+            deviceManager.onDidChangeStatus(device => this.refreshDevice(device.id)),
+            deviceManager.onDidChangeInfo(device => this.refreshDevice(device.id)),
+            deviceManager.onDidChangeFiles(event => this.refreshDirectory(event.deviceId, event.path)),
+            deviceManager.profiles.onDidChange(() => this.refresh()),
+            deviceManager.settings.onDidChange(() => this.refresh())
+        );
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
     }
 
     /**
-     * Configura listener para mudanças nos dispositivos
+     * Redesenha apenas o nó de um dispositivo (ícone, descrição, tooltip)
      */
-    private setupDeviceChangeListener(): void {
-        // Monitorar mudanças de conexão para atualizar automaticamente
-        const checkDeviceChanges = () => {
-            const currentDevices = this.deviceManager.getConnectedDevices();
-            let hasChanges = false;
-            
-            // Verificar se algum dispositivo foi conectado/desconectado
-            currentDevices.forEach(device => {
-                const cacheKey = `${device.id}:/`;
-                if (device.isConnected && !this.fileCache.has(cacheKey)) {
-                    // Novo dispositivo conectado - forçar carregamento de arquivos
-                    this.loadDeviceFiles(device.id);
-                    hasChanges = true;
-                }
-            });
-            
-            if (hasChanges) {
-                this.refresh();
-            }
-        };
-        
-        // Verificar mudanças a cada 2 segundos
-        setInterval(checkDeviceChanges, 2000);
+    refreshDevice(deviceId: string): void {
+        const item = this.deviceItems.get(deviceId);
+        const device = this.deviceManager.getDevice(deviceId);
+        if (!item || !device) {
+            this.refresh();
+            return;
+        }
+
+        item.device = device;
+        item.status = device.status;
+        this._onDidChangeTreeData.fire(item);
     }
 
     /**
-     * Carrega arquivos de um dispositivo específico
+     * Recarrega o conteúdo de um diretório alterado
+     *
+     * Problema: Um upload em /lib/novo/x.py cria diretórios que a árvore ainda não conhece
+     * Solução: Invalida o cache subindo pelos diretórios pais até achar um nó já exibido
+     * Exemplo: Se /lib/novo não existe na árvore, o nó /lib é recarregado
      */
-    private async loadDeviceFiles(deviceId: string): Promise<void> {
-        try {
-            const files = await this.deviceManager.getFileStructure(deviceId);
-            const cacheKey = `${deviceId}:/`;
-            this.fileCache.set(cacheKey, files);
-        } catch (error) {
-            console.log(`Erro ao carregar arquivos do dispositivo ${deviceId}:`, error);
+    private refreshDirectory(deviceId: string, dirPath: string): void {
+        let current = dirPath || '/';
+        while (true) {
+            this.fileCache.delete(`${deviceId}:${current}`);
+
+            const item = current === '/'
+                ? this.deviceItems.get(deviceId)
+                : this.directoryItems.get(`${deviceId}:${current}`);
+            if (item) {
+                this._onDidChangeTreeData.fire(item);
+                return;
+            }
+            if (current === '/') {
+                return;
+            }
+            current = path.posix.dirname(current);
         }
     }
 
-    refresh(): void {
-        this._onDidChangeTreeData.fire();
+    /**
+     * Remove o dispositivo e seus itens em cache
+     */
+    private removeDevice(deviceId: string): void {
+        this.deviceItems.delete(deviceId);
+        for (const key of Array.from(this.directoryItems.keys())) {
+            if (key.startsWith(`${deviceId}:`)) {
+                this.directoryItems.delete(key);
+            }
+        }
+        this.clearFileCache(deviceId);
     }
 
     /**
@@ -93,6 +126,11 @@ export class DeviceTreeProvider implements vscode.TreeDataProvider<DeviceTreeIte
         this.clearFileCache(deviceId);
     }
 
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this._onDidChangeTreeData.dispose();
+    }
+
     getTreeItem(element: DeviceTreeItem): vscode.TreeItem {
         if (element.type === 'device' && element.device) {
             const treeItem = new vscode.TreeItem(
@@ -101,29 +139,59 @@ export class DeviceTreeProvider implements vscode.TreeDataProvider<DeviceTreeIte
             );
 
             // Configurar ícone baseado no status
-            treeItem.iconPath = this.getDeviceIcon(element.device.isConnected);
+            treeItem.iconPath = this.getDeviceIcon(element.device.status);
             
             // Configurar descrição com informações do dispositivo
+            const showMemory = this.deviceManager.settings.value.memoryMonitoring && element.device.memoryFree !== undefined;
             const description = [
                 element.device.port,
                 `${element.device.baudRate} baud`,
-                element.device.micropythonVersion ? `v${element.device.micropythonVersion}` : ''
+                element.device.micropythonVersion ? `v${element.device.micropythonVersion}` : '',
+                showMemory ? `${Math.round(element.device.memoryFree! / 1024)} KB livres` : ''
             ].filter(Boolean).join(' • ');
             
             treeItem.description = description;
 
             // Configurar tooltip com informações detalhadas
+            const profile = this.deviceManager.getProfile(element.device.id);
             treeItem.tooltip = new vscode.MarkdownString(
                 `**${element.device.name}**\n\n` +
                 `• **Porta:** ${element.device.port}\n` +
                 `• **Baud Rate:** ${element.device.baudRate}\n` +
-                `• **Status:** ${element.device.isConnected ? 'Conectado' : 'Desconectado'}\n` +
+                `• **Status:** ${STATUS_LABELS[element.device.status]}\n` +
                 `• **MicroPython:** ${element.device.micropythonVersion || 'Não detectado'}\n` +
-                `• **Última Atividade:** ${element.device.lastActivity.toLocaleString()}`
+                `• **Última Atividade:** ${element.device.lastActivity.toLocaleString()}` +
+                (element.device.info
+                    ? describeDeviceInfo(element.device.info).map(([label, value]) => `\n• **${label}:** ${value}`).join('')
+                    : showMemory ? `\n• **Memória Livre:** ${(element.device.memoryFree! / 1024).toFixed(1)} de ${(element.device.memoryTotal! / 1024).toFixed(1)} KB` : '') +
+                (profile ? this.describeProfile(profile) : '')
             );
 
             // Configurar contexto para menus
-            treeItem.contextValue = element.device.isConnected ? 'connectedDevice' : 'disconnectedDevice';
+            treeItem.contextValue = element.device.isConnected
+                ? 'connectedDevice'
+                : element.device.status === DeviceStatus.CONNECTING ? 'reconnectingDevice' : 'disconnectedDevice';
+
+            return treeItem;
+        } else if (element.type === 'profile' && element.profile) {
+            // Placa conhecida, mas não conectada
+            const profile = element.profile;
+            const treeItem = new vscode.TreeItem(profile.name, vscode.TreeItemCollapsibleState.None);
+
+            treeItem.iconPath = this.getDeviceIcon(DeviceStatus.DISCONNECTED);
+            treeItem.description = [
+                profile.port,
+                profile.baudRate ? `${profile.baudRate} baud` : '',
+                profile.boardType
+            ].filter(Boolean).join(' • ');
+            treeItem.tooltip = new vscode.MarkdownString(
+                `**${profile.name}**\n\n` +
+                `• **Última porta:** ${profile.port}\n` +
+                `• **Status:** ${STATUS_LABELS[DeviceStatus.DISCONNECTED]}\n` +
+                `• **Visto em:** ${profile.lastSeen ? new Date(profile.lastSeen).toLocaleString() : 'Nunca'}` +
+                this.describeProfile(profile)
+            );
+            treeItem.contextValue = 'disconnectedDevice';
 
             return treeItem;
         } else if (element.file) {
@@ -173,13 +241,25 @@ export class DeviceTreeProvider implements vscode.TreeDataProvider<DeviceTreeIte
         if (!element) {
             // Retornar dispositivos raiz
             const devices = this.deviceManager.getConnectedDevices();
-            return Promise.resolve(
-                devices.map((device: ESP32Device) => ({
-                    device,
-                    status: device.isConnected ? DeviceStatus.CONNECTED : DeviceStatus.DISCONNECTED,
-                    type: 'device' as const
-                }))
-            );
+            const deviceItems = devices.map((device: ESP32Device) => {
+                const item = this.deviceItems.get(device.id) || { type: 'device' as const };
+                item.device = device;
+                item.status = device.status;
+                this.deviceItems.set(device.id, item);
+                return item;
+            });
+
+            // Placas conhecidas que não estão conectadas aparecem depois, para reconexão
+            const connectedKeys = new Set(devices.map(device => device.profileKey));
+            const profileItems = this.deviceManager.profiles.getAll()
+                .filter((profile: DeviceProfile) => !connectedKeys.has(profile.key))
+                .map((profile: DeviceProfile) => ({
+                    profile,
+                    status: DeviceStatus.DISCONNECTED,
+                    type: 'profile' as const
+                }));
+
+            return Promise.resolve([...deviceItems, ...profileItems]);
         } else if (element.type === 'device' && element.device && element.device.isConnected) {
             // Retornar arquivos do dispositivo
             const cacheKey = `${element.device.id}:/`;
@@ -188,10 +268,7 @@ export class DeviceTreeProvider implements vscode.TreeDataProvider<DeviceTreeIte
             if (this.fileCache.has(cacheKey)) {
                 const cachedFiles = this.fileCache.get(cacheKey)!;
                 return Promise.resolve(
-                    cachedFiles.map((file: ESP32File) => ({
-                        file,
-                        type: file.isDirectory ? 'directory' as const : 'file' as const
-                    }))
+                    this.toTreeItems(cachedFiles)
                 );
             }
             
@@ -201,10 +278,7 @@ export class DeviceTreeProvider implements vscode.TreeDataProvider<DeviceTreeIte
                     // Atualizar cache
                     this.fileCache.set(cacheKey, files);
                     
-                    return files.map((file: ESP32File) => ({
-                        file,
-                        type: file.isDirectory ? 'directory' as const : 'file' as const
-                    }));
+                    return this.toTreeItems(files);
                 })
                 .catch((error) => {
                     console.log(`Erro ao carregar estrutura de arquivos: ${error}`);
@@ -227,10 +301,7 @@ export class DeviceTreeProvider implements vscode.TreeDataProvider<DeviceTreeIte
             if (this.fileCache.has(cacheKey)) {
                 const cachedFiles = this.fileCache.get(cacheKey)!;
                 return Promise.resolve(
-                    cachedFiles.map((file: ESP32File) => ({
-                        file,
-                        type: file.isDirectory ? 'directory' as const : 'file' as const
-                    }))
+                    this.toTreeItems(cachedFiles)
                 );
             }
             
@@ -239,10 +310,7 @@ export class DeviceTreeProvider implements vscode.TreeDataProvider<DeviceTreeIte
                     // Atualizar cache
                     this.fileCache.set(cacheKey, files);
                     
-                    return files.map((file: ESP32File) => ({
-                        file,
-                        type: file.isDirectory ? 'directory' as const : 'file' as const
-                    }));
+                    return this.toTreeItems(files);
                 })
                 .catch((error) => {
                     console.log(`Erro ao carregar diretório ${element.file?.path}: ${error}`);
@@ -253,6 +321,32 @@ export class DeviceTreeProvider implements vscode.TreeDataProvider<DeviceTreeIte
         return Promise.resolve([]);
     }
 
+    /**
+     * Linhas extras do tooltip vindas do perfil da placa
+     */
+    private describeProfile(profile: DeviceProfile): string {
+        return (profile.boardType ? `\n• **Placa:** ${profile.boardType}` : '') +
+            (profile.remoteFolder ? `\n• **Pasta remota:** ${profile.remoteFolder}` : '') +
+            (profile.notes ? `\n\n${profile.notes}` : '');
+    }
+
+    /**
+     * Converte arquivos em itens, reaproveitando os nós de diretório já exibidos
+     */
+    private toTreeItems(files: ESP32File[]): DeviceTreeItem[] {
+        return files.map((file: ESP32File) => {
+            if (!file.isDirectory) {
+                return { file, type: 'file' as const };
+            }
+
+            const key = `${file.deviceId}:${file.path}`;
+            const item = this.directoryItems.get(key) || { type: 'directory' as const };
+            item.file = file;
+            this.directoryItems.set(key, item);
+            return item;
+        });
+    }
+
     /**
      * Obtém ícone apropriado para o dispositivo baseado no status
      * 
@@ -260,11 +354,16 @@ export class DeviceTreeProvider implements vscode.TreeDataProvider<DeviceTreeIte
      * Solução: Ícones visuais claros para cada estado
      * Exemplo: Círculo verde para conectado, vermelho para erro, cinza para desconectado
      */
-    private getDeviceIcon(isConnected: boolean): vscode.ThemeIcon {
-        if (isConnected) {
-            return new vscode.ThemeIcon('circle-filled', new vscode.ThemeColor('charts.green'));
-        } else {
-            return new vscode.ThemeIcon('circle-outline', new vscode.ThemeColor('charts.red'));
+    private getDeviceIcon(status: DeviceStatus): vscode.ThemeIcon {
+        switch (status) {
+            case DeviceStatus.CONNECTED:
+                return new vscode.ThemeIcon('circle-filled', new vscode.ThemeColor('charts.green'));
+            case DeviceStatus.CONNECTING:
+                return new vscode.ThemeIcon('sync~spin', new vscode.ThemeColor('charts.yellow'));
+            case DeviceStatus.ERROR:
+                return new vscode.ThemeIcon('error', new vscode.ThemeColor('charts.red'));
+            default:
+                return new vscode.ThemeIcon('circle-outline', new vscode.ThemeColor('charts.red'));
         }
     }
 }
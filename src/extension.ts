@@ -1,7 +1,25 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { DeviceManager } from './deviceManager';
 import { DeviceTreeProvider } from './deviceTreeProvider';
 import { REPLManager } from './replManager';
+import { PortWatcher } from './portWatcher';
+import { createTransport } from './transport';
+import { SettingsService } from './settings';
+import { ESP32Device } from './types';
+import { DeviceDiagnostics } from './deviceDiagnostics';
+import { CellCodeLensProvider, cellAt, dedent } from './codeCells';
+import { MpynbSerializer, MPYNB_NOTEBOOK_TYPE } from './notebookSerializer';
+import { DeviceNotebookKernels } from './notebookController';
+import { MicroPythonDebugAdapterFactory, MicroPythonDebugConfigurationProvider, MICROPYTHON_DEBUG_TYPE } from './debugAdapter';
+import { MicroPythonTaskProvider, MICROPYTHON_TASK_TYPE } from './taskProvider';
+import { DeviceDashboard } from './deviceDashboard';
+import { MemoryMonitor } from './memoryMonitor';
+import { SerialPlotter } from './serialPlotter';
+import { TrafficInspector } from './trafficInspector';
+import { resolveConnectedDevice } from './projectFiles';
 
 /**
  * MicroPython Manager - Extensão VSCode para gerenciar múltiplas conexões ESP32
@@ -15,19 +33,68 @@ let deviceManager: DeviceManager;
 let treeProvider: DeviceTreeProvider;
 let replManager: REPLManager;
 
-export function activate(context: vscode.ExtensionContext) {
+/**
+ * API exposta a outras extensões via `vscode.extensions.getExtension(...).exports`
+ */
+export interface MicroPythonManagerApi {
+    getConnectedDevices(): ESP32Device[];
+    executeCommand: DeviceManager['executeCommand'];
+    /** Saída de stdout/stderr ao vivo; o retorno do iterador é o resultado completo */
+    streamCommand: DeviceManager['streamCommand'];
+}
+
+export function activate(context: vscode.ExtensionContext): MicroPythonManagerApi {
     console.log('MicroPython Manager ativado!');
 
     // Inicializar gerenciadores
-    deviceManager = new DeviceManager(context);
+    const portWatcher = new PortWatcher();
+    const settings = new SettingsService();
+    deviceManager = new DeviceManager(context, createTransport, portWatcher, settings);
+    portWatcher.start();
+    context.subscriptions.push(portWatcher, settings);
     treeProvider = new DeviceTreeProvider(deviceManager);
-    replManager = new REPLManager(deviceManager);
+    const diagnostics = new DeviceDiagnostics(deviceManager);
+    context.subscriptions.push(diagnostics);
+    replManager = new REPLManager(deviceManager, diagnostics);
+
+    // Notebooks (.ipynb e .mpynb) com as placas conectadas como kernels
+    const notebookKernels = new DeviceNotebookKernels(deviceManager);
+    context.subscriptions.push(
+        notebookKernels,
+        vscode.workspace.registerNotebookSerializer(MPYNB_NOTEBOOK_TYPE, new MpynbSerializer()),
+        vscode.commands.registerCommand('micropython-manager.restartKernel', async () => {
+            const notebook = vscode.window.activeNotebookEditor?.notebook;
+            if (!notebook) {
+                return;
+            }
+            try {
+                await notebookKernels.restart(notebook);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Erro ao reiniciar o kernel: ${error}`);
+            }
+        })
+    );
+
+    // Depuração (launch.json "type": "micropython")
+    context.subscriptions.push(
+        vscode.debug.registerDebugConfigurationProvider(MICROPYTHON_DEBUG_TYPE, new MicroPythonDebugConfigurationProvider(deviceManager)),
+        vscode.debug.registerDebugAdapterDescriptorFactory(MICROPYTHON_DEBUG_TYPE, new MicroPythonDebugAdapterFactory(deviceManager, replManager))
+    );
+
+    // Tarefas (tasks.json "type": "micropython")
+    context.subscriptions.push(
+        vscode.tasks.registerTaskProvider(MICROPYTHON_TASK_TYPE, new MicroPythonTaskProvider(deviceManager, replManager))
+    );
 
     // Registrar Tree Data Provider
-    vscode.window.createTreeView('micropython-devices', {
+    const treeView = vscode.window.createTreeView('micropython-devices', {
         treeDataProvider: treeProvider,
         showCollapseAll: true
     });
+    context.subscriptions.push(treeView, treeProvider);
+
+    // Barra de status com o número de dispositivos conectados
+    registerStatusBar(context);
 
     // Registrar comandos
     registerCommands(context);
@@ -35,7 +102,39 @@ export function activate(context: vscode.ExtensionContext) {
     // Configurar contexto para mostrar/ocultar views
     vscode.commands.executeCommand('setContext', 'micropython-manager.hasDevices', true);
 
-    vscode.window.showInformationMessage('MicroPython Manager está ativo!');
+    return {
+        getConnectedDevices: () => deviceManager.getConnectedDevices(),
+        executeCommand: (...args) => deviceManager.executeCommand(...args),
+        streamCommand: (...args) => deviceManager.streamCommand(...args)
+    };
+}
+
+/**
+ * Cria o item da barra de status, atualizado pelos eventos do DeviceManager
+ *
+ * Também mantém o contexto `micropython-manager.hasConnectedDevice`: os atalhos de execução
+ * (Ctrl+Shift+Enter sobrepõe "Inserir Linha Acima") só valem com uma placa conectada.
+ */
+function registerStatusBar(context: vscode.ExtensionContext) {
+    const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+    statusBarItem.command = 'micropython-manager.connectDevice';
+
+    const update = () => {
+        const connected = deviceManager.getConnectedDevices().filter(device => device.isConnected).length;
+        statusBarItem.text = `$(plug) MicroPython: ${connected}`;
+        statusBarItem.tooltip = connected === 1 ? '1 dispositivo conectado' : `${connected} dispositivos conectados`;
+        vscode.commands.executeCommand('setContext', 'micropython-manager.hasConnectedDevice', connected > 0);
+    };
+
+    update();
+    statusBarItem.show();
+
+    context.subscriptions.push(
+        statusBarItem,
+        deviceManager.onDidConnect(update),
+        deviceManager.onDidDisconnect(update),
+        deviceManager.onDidChangeStatus(update)
+    );
 }
 
 /**
@@ -72,7 +171,6 @@ function registerCommands(context: vscode.ExtensionContext) {
 
             if (selectedItem) {
                 await deviceManager.connectDevice(selectedItem.port.path);
-                treeProvider.refresh();
             }
 
         } catch (error) {
@@ -81,20 +179,217 @@ function registerCommands(context: vscode.ExtensionContext) {
     });
 
     // Comando: Conectar dispositivo manualmente
-    const connectDeviceCommand = vscode.commands.registerCommand('micropython-manager.connectDevice', async () => {
+    // Porta serial da lista ou endereço digitado (tcp://, rfc2217://, fake://...)
+    const pickDeviceAddress = async (placeHolder: string): Promise<string | undefined> => {
         const ports = await deviceManager.listSerialPorts();
-        if (ports.length === 0) {
-            vscode.window.showWarningMessage('Nenhuma porta serial encontrada. Verifique se o dispositivo está conectado.');
+        const manualItem = {
+            label: '$(edit) Digitar endereço...',
+            description: 'Porta ou URL de transporte (ex.: tcp://host:4000, rfc2217://host:2217)'
+        };
+
+        const selectedPort = await vscode.window.showQuickPick(
+            [...ports.map(p => ({ label: p.path, description: p.manufacturer })), manualItem],
+            { placeHolder }
+        );
+
+        if (!selectedPort) {
+            return undefined;
+        }
+
+        if (selectedPort === manualItem) {
+            const address = await vscode.window.showInputBox({
+                prompt: 'Endereço do dispositivo',
+                placeHolder: '/dev/ttyUSB0, COM3, rfc2217://host:2217 ou fake://esp32'
+            });
+            return address?.trim() || undefined;
+        }
+
+        return selectedPort.label;
+    };
+
+    const connectDeviceCommand = vscode.commands.registerCommand('micropython-manager.connectDevice', async () => {
+        const address = await pickDeviceAddress('Selecione a porta serial do seu dispositivo');
+        if (address) {
+            await deviceManager.connectDevice(address);
+        }
+    });
+
+    // Comando: Conectar gravando todo o tráfego em um arquivo (reproduzível com replay://)
+    const recordSessionCommand = vscode.commands.registerCommand('micropython-manager.recordSession', async () => {
+        const address = await pickDeviceAddress('Selecione a porta do dispositivo a gravar');
+        if (!address) {
             return;
         }
 
-        const selectedPort = await vscode.window.showQuickPick(
-            ports.map(p => ({ label: p.path, description: p.manufacturer })),
-            { placeHolder: 'Selecione a porta serial do seu dispositivo' }
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || os.homedir();
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(path.join(folder, `${address.replace(/[^\w.-]+/g, '_')}.mpsession`)),
+            filters: { 'Sessões MicroPython': ['mpsession'] },
+            saveLabel: 'Gravar Sessão'
+        });
+        if (!target) {
+            return;
+        }
+
+        try {
+            // Uma nova gravação substitui o arquivo; reconexões continuam nele
+            await fs.promises.writeFile(target.fsPath, '');
+            const device = await deviceManager.connectDevice(address, undefined, { recordPath: target.fsPath });
+            if (device) {
+                vscode.window.showInformationMessage(`Gravando sessão de ${device.name} em ${path.basename(target.fsPath)} até desconectar`);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Erro ao gravar sessão: ${error}`);
+        }
+    });
+
+    // Comando: Reproduzir uma sessão gravada como dispositivo simulado
+    const replaySessionCommand = vscode.commands.registerCommand('micropython-manager.replaySession', async (uri?: vscode.Uri) => {
+        const [file] = uri ? [uri] : await vscode.window.showOpenDialog({
+            filters: { 'Sessões MicroPython': ['mpsession'] },
+            openLabel: 'Reproduzir'
+        }) || [];
+        if (!file) {
+            return;
+        }
+
+        try {
+            await deviceManager.connectDevice(`replay://${file.fsPath}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Erro ao reproduzir sessão: ${error}`);
+        }
+    });
+
+    // Comando: Conectar ao MicroPython unix port local (dispositivo virtual)
+    const connectLocalCommand = vscode.commands.registerCommand('micropython-manager.connectLocal', async () => {
+        try {
+            const rootPath = fs.mkdtempSync(path.join(os.tmpdir(), 'micropython-vfs-'));
+            await deviceManager.connectDevice(`unix://${rootPath}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Erro ao iniciar MicroPython local: ${error}`);
+        }
+    });
+
+    // Comando: Conectar via WebREPL (Wi-Fi)
+    const connectWebREPLCommand = vscode.commands.registerCommand('micropython-manager.connectWebREPL', async (knownUrl?: string) => {
+        const url = knownUrl || await vscode.window.showInputBox({
+            prompt: 'Endereço WebREPL do dispositivo',
+            value: 'ws://192.168.4.1:8266',
+            validateInput: value => /^wss?:\/\/.+/.test(value) ? undefined : 'Use o formato ws://host:porta'
+        });
+        if (!url) {
+            return;
+        }
+
+        // A senha fica no SecretStorage, nunca nas configurações
+        const secretKey = `webrepl:${url}`;
+        let password = await context.secrets.get(secretKey);
+        if (password === undefined) {
+            password = await vscode.window.showInputBox({
+                prompt: `Senha do WebREPL em ${url}`,
+                password: true
+            });
+            if (password === undefined) {
+                return;
+            }
+        }
+
+        try {
+            const device = await deviceManager.connectDevice(url, undefined, { password });
+            if (device) {
+                await context.secrets.store(secretKey, password);
+            } else {
+                // Senha possivelmente incorreta: pedir novamente na próxima tentativa
+                await context.secrets.delete(secretKey);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Erro ao conectar via WebREPL: ${error}`);
+        }
+    });
+
+    // Comando: Reconectar placa conhecida (perfil salvo)
+    const reconnectDeviceCommand = vscode.commands.registerCommand('micropython-manager.reconnectDevice', async (item) => {
+        if (!item || !item.profile) {
+            return;
+        }
+
+        try {
+            if (/^wss?:\/\//.test(item.profile.port)) {
+                // WebREPL precisa da senha guardada no SecretStorage
+                await vscode.commands.executeCommand('micropython-manager.connectWebREPL', item.profile.port);
+            } else {
+                await deviceManager.connectProfile(item.profile.key);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Erro ao reconectar: ${error}`);
+        }
+    });
+
+    // Comando: Editar perfil do dispositivo
+    const editDeviceProfileCommand = vscode.commands.registerCommand('micropython-manager.editDeviceProfile', async (item) => {
+        const profile = item?.profile || (item?.device ? deviceManager.getProfile(item.device.id) : undefined);
+        if (!profile) {
+            vscode.window.showWarningMessage('Este dispositivo não possui identificação persistente (número de série ou machine.unique_id).');
+            return;
+        }
+
+        const fields = [
+            { label: 'Nome', value: profile.name, field: 'name' as const },
+            { label: 'Baud rate preferido', value: profile.baudRate ? String(profile.baudRate) : '', field: 'baudRate' as const },
+            { label: 'Tipo de placa', value: profile.boardType || '', field: 'boardType' as const },
+            { label: 'Notas', value: profile.notes || '', field: 'notes' as const },
+            { label: 'Pasta remota padrão', value: profile.remoteFolder || '', field: 'remoteFolder' as const }
+        ];
+
+        const selected = await vscode.window.showQuickPick(
+            fields.map(field => ({ ...field, description: field.value || '(vazio)' })),
+            { placeHolder: `Editar perfil de ${profile.name}` }
         );
+        if (!selected) {
+            return;
+        }
+
+        const value = await vscode.window.showInputBox({
+            prompt: selected.label,
+            value: selected.value,
+            validateInput: input => {
+                if (selected.field === 'baudRate' && input && !/^\d+$/.test(input)) {
+                    return 'Informe um número (ex.: 115200)';
+                }
+                if (selected.field === 'name' && !input.trim()) {
+                    return 'O nome não pode ficar vazio';
+                }
+                return undefined;
+            }
+        });
+        if (value === undefined) {
+            return;
+        }
 
-        if (selectedPort) {
-            await deviceManager.connectDevice(selectedPort.label);
+        const updated = { ...profile };
+        if (selected.field === 'baudRate') {
+            updated.baudRate = value ? Number(value) : undefined;
+        } else if (selected.field === 'name') {
+            updated.name = value.trim();
+        } else {
+            updated[selected.field] = value.trim() || undefined;
+        }
+        await deviceManager.updateProfile(updated);
+    });
+
+    // Comando: Esquecer placa conhecida
+    const forgetDeviceCommand = vscode.commands.registerCommand('micropython-manager.forgetDevice', async (item) => {
+        if (!item || !item.profile) {
+            return;
+        }
+
+        const result = await vscode.window.showWarningMessage(
+            `Esquecer ${item.profile.name}? Nome, notas e preferências serão apagados.`,
+            { modal: true },
+            'Sim', 'Não'
+        );
+        if (result === 'Sim') {
+            await deviceManager.profiles.remove(item.profile.key);
         }
     });
 
@@ -102,7 +397,6 @@ function registerCommands(context: vscode.ExtensionContext) {
     const disconnectDeviceCommand = vscode.commands.registerCommand('micropython-manager.disconnectDevice', async (item) => {
         if (item && item.device) {
             await deviceManager.disconnectDevice(item.device.id);
-            treeProvider.refresh();
         }
     });
 
@@ -116,7 +410,6 @@ function registerCommands(context: vscode.ExtensionContext) {
 
         if (result === 'Sim') {
             await deviceManager.disconnectAll();
-            treeProvider.refresh();
         }
     });
 
@@ -300,6 +593,40 @@ function registerCommands(context: vscode.ExtensionContext) {
         }
     });
 
+    // Comando: Reset por hardware (DTR/RTS), para placas que não respondem ao Ctrl+D
+    const hardResetDeviceCommand = vscode.commands.registerCommand('micropython-manager.hardResetDevice', async (item) => {
+        let targetDevice: ESP32Device | undefined = item?.device;
+        if (!targetDevice) {
+            const devices = deviceManager.getConnectedDevices();
+            if (devices.length === 0) {
+                vscode.window.showWarningMessage('Nenhum dispositivo conectado');
+                return;
+            }
+            targetDevice = devices.length === 1 ? devices[0] : (await vscode.window.showQuickPick(
+                devices.map(device => ({ label: device.name, description: device.port, device })),
+                { placeHolder: 'Selecione um dispositivo para reset por hardware' }
+            ))?.device;
+            if (!targetDevice) {
+                return;
+            }
+        }
+
+        const result = await vscode.window.showWarningMessage(
+            `Fazer reset por hardware do ${targetDevice.name}? O programa em execução é interrompido.`,
+            { modal: true },
+            'Sim'
+        );
+        if (result !== 'Sim') {
+            return;
+        }
+
+        try {
+            await deviceManager.hardReset(targetDevice.id);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Erro no reset por hardware: ${error instanceof Error ? error.message : error}`);
+        }
+    });
+
     // Comando: Mostrar informações de memória
     const showMemoryInfoCommand = vscode.commands.registerCommand('micropython-manager.showMemoryInfo', async (item) => {
         let targetDevice: any;
@@ -340,6 +667,107 @@ function registerCommands(context: vscode.ExtensionContext) {
         }
     });
 
+    // Comando: Painel com as informações do dispositivo
+    const dashboard = new DeviceDashboard(deviceManager);
+    const showDashboardCommand = vscode.commands.registerCommand('micropython-manager.showDashboard', async (item) => {
+        const targetDevice = item?.device || await resolveConnectedDevice(deviceManager, undefined, 'Selecione um dispositivo para abrir o painel');
+        if (!targetDevice) {
+            return;
+        }
+
+        try {
+            await dashboard.show(targetDevice.id);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Erro ao abrir o painel: ${error}`);
+        }
+    });
+
+    // Comando: Gráfico contínuo do heap
+    const memoryMonitor = new MemoryMonitor(deviceManager);
+    // A memória livre na árvore acompanha as amostras periódicas
+    const memorySampleSubscription = memoryMonitor.onDidSample(({ deviceId }) => treeProvider.refreshDevice(deviceId));
+    const showMemoryMonitorCommand = vscode.commands.registerCommand('micropython-manager.showMemoryMonitor', async (item) => {
+        const targetDevice = item?.device || await resolveConnectedDevice(deviceManager, undefined, 'Selecione um dispositivo para monitorar a memória');
+        if (!targetDevice) {
+            return;
+        }
+
+        try {
+            memoryMonitor.show(targetDevice.id);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Erro ao abrir o monitor de memória: ${error}`);
+        }
+    });
+
+    // Comando: Plotter serial das linhas numéricas impressas pela placa
+    const serialPlotter = new SerialPlotter(deviceManager);
+    const openPlotterCommand = vscode.commands.registerCommand('micropython-manager.openPlotter', async (item) => {
+        const targetDevice = item?.device || await resolveConnectedDevice(deviceManager, undefined, 'Selecione um dispositivo para plotar');
+        if (!targetDevice) {
+            return;
+        }
+
+        try {
+            serialPlotter.show(targetDevice.id);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Erro ao abrir o plotter: ${error}`);
+        }
+    });
+
+    // Comando: Inspetor de tráfego (bytes TX/RX em hexadecimal)
+    const trafficInspector = new TrafficInspector(deviceManager);
+    const openTrafficInspectorCommand = vscode.commands.registerCommand('micropython-manager.openTrafficInspector', async (item) => {
+        const targetDevice = item?.device || await resolveConnectedDevice(deviceManager, undefined, 'Selecione um dispositivo para inspecionar');
+        if (!targetDevice) {
+            return;
+        }
+
+        try {
+            trafficInspector.show(targetDevice.id);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Erro ao abrir o inspetor de tráfego: ${error}`);
+        }
+    });
+
+    // Comando: Abrir o log de sessão (tráfego serial gravado em disco)
+    const openSessionLogCommand = vscode.commands.registerCommand('micropython-manager.openSessionLog', async (item) => {
+        if (!deviceManager.settings.value.sessionLogging) {
+            const selection = await vscode.window.showWarningMessage('O log de sessão está desativado (micropython-manager.sessionLogging)', 'Ativar');
+            if (selection) {
+                await vscode.workspace.getConfiguration('micropython-manager').update('sessionLogging', true, vscode.ConfigurationTarget.Global);
+            }
+            return;
+        }
+
+        // Nenhuma placa conectada: escolher o log de uma sessão anterior
+        if (!item?.device && deviceManager.getConnectedDevices().length === 0) {
+            const [uri] = await vscode.window.showOpenDialog({
+                defaultUri: vscode.Uri.file(deviceManager.getSessionLogDirectory()),
+                filters: { 'Logs': ['log'] },
+                openLabel: 'Abrir Log'
+            }) || [];
+            if (uri) {
+                await vscode.window.showTextDocument(uri, { preview: false });
+            }
+            return;
+        }
+
+        const targetDevice = item?.device || await resolveConnectedDevice(deviceManager, undefined, 'Selecione um dispositivo para abrir o log');
+        if (!targetDevice) {
+            return;
+        }
+
+        try {
+            const logPath = await deviceManager.flushSessionLog(targetDevice.id);
+            if (!logPath) {
+                throw new Error('nenhum log ativo para o dispositivo');
+            }
+            await vscode.window.showTextDocument(vscode.Uri.file(logPath), { preview: false });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Erro ao abrir o log de sessão: ${error}`);
+        }
+    });
+
     // Comando: Listar arquivos
     const listFilesCommand = vscode.commands.registerCommand('micropython-manager.listFiles', async (item) => {
         let targetDevice: any;
@@ -435,7 +863,6 @@ function registerCommands(context: vscode.ExtensionContext) {
         if (result === 'Sim') {
             try {
                 await deviceManager.deleteFile(item.file.deviceId, item.file.path, item.file.isDirectory);
-                treeProvider.clearFileCache(item.file.deviceId);
                 vscode.window.showInformationMessage(`${fileType} excluído com sucesso`);
             } catch (error) {
                 vscode.window.showErrorMessage(`Erro ao excluir ${fileType}: ${error}`);
@@ -443,24 +870,156 @@ function registerCommands(context: vscode.ExtensionContext) {
         }
     });
 
+    // Comando: Executar seleção (ou a linha atual, se não houver seleção)
+    const runSelectionCommand = vscode.commands.registerCommand('micropython-manager.runSelection', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            return;
+        }
+
+        const selection = editor.selection;
+        if (selection.isEmpty) {
+            await runEditorLine(editor);
+            return;
+        }
+
+        // Seleção em várias linhas é enviada em linhas inteiras, para manter a indentação consistente
+        const range = selection.isSingleLine
+            ? selection
+            : new vscode.Range(selection.start.line, 0, selection.end.line, editor.document.lineAt(selection.end.line).text.length);
+        const lines = range.start.line === range.end.line
+            ? `linha ${range.start.line + 1}`
+            : `linhas ${range.start.line + 1}-${range.end.line + 1}`;
+        await runEditorCode(editor.document, range, `seleção (${lines})`);
+    });
+
+    // Comando: Executar linha atual
+    const runLineCommand = vscode.commands.registerCommand('micropython-manager.runLine', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (editor) {
+            await runEditorLine(editor);
+        }
+    });
+
+    // Comando: Executar célula "# %%" (do cursor ou indicada pelo CodeLens)
+    const runCellCommand = vscode.commands.registerCommand('micropython-manager.runCell', async (uri?: vscode.Uri, line?: number) => {
+        const document = uri
+            ? await vscode.workspace.openTextDocument(uri)
+            : vscode.window.activeTextEditor?.document;
+        if (!document) {
+            return;
+        }
+
+        const cellLine = line ?? vscode.window.activeTextEditor!.selection.active.line;
+        const cell = cellAt(document, cellLine);
+        if (!cell) {
+            vscode.window.showWarningMessage('Nenhuma célula "# %%" encontrada neste arquivo');
+            return;
+        }
+
+        const name = cell.title ? `"${cell.title}"` : `linhas ${cell.range.start.line + 1}-${cell.range.end.line + 1}`;
+        await runEditorCode(document, cell.range, `célula ${name}`);
+    });
+
+    context.subscriptions.push(
+        vscode.languages.registerCodeLensProvider({ language: 'python' }, new CellCodeLensProvider())
+    );
+
     // Adicionar comandos ao contexto
     context.subscriptions.push(
         scanPortsCommand,
         connectDeviceCommand,
+        recordSessionCommand,
+        replaySessionCommand,
+        connectLocalCommand,
+        connectWebREPLCommand,
+        reconnectDeviceCommand,
+        editDeviceProfileCommand,
+        forgetDeviceCommand,
         disconnectDeviceCommand,
         disconnectAllCommand,
         openREPLCommand,
         runScriptCommand,
         uploadFileCommand,
         resetDeviceCommand,
+        hardResetDeviceCommand,
         showMemoryInfoCommand,
+        showDashboardCommand,
+        dashboard,
+        showMemoryMonitorCommand,
+        memoryMonitor,
+        memorySampleSubscription,
+        openPlotterCommand,
+        serialPlotter,
+        openTrafficInspectorCommand,
+        trafficInspector,
+        openSessionLogCommand,
         listFilesCommand,
         refreshFilesCommand,
         downloadFileCommand,
-        deleteFileCommand
+        deleteFileCommand,
+        runSelectionCommand,
+        runLineCommand,
+        runCellCommand
     );
 }
 
+/** Último dispositivo usado para executar código do editor */
+let lastEditorDeviceId: string | undefined;
+
+/**
+ * Escolhe o dispositivo que executará código do editor
+ *
+ * Com mais de um conectado, pergunta ao usuário, oferecendo primeiro o último usado.
+ */
+async function pickEditorDevice(): Promise<ESP32Device | undefined> {
+    const devices = deviceManager.getConnectedDevices();
+    if (devices.length === 0) {
+        vscode.window.showWarningMessage('Nenhum dispositivo conectado');
+        return undefined;
+    }
+    if (devices.length === 1) {
+        lastEditorDeviceId = devices[0].id;
+        return devices[0];
+    }
+
+    const items = devices
+        .map(device => ({ label: device.name, description: device.port, device }))
+        .sort((a, b) => Number(b.device.id === lastEditorDeviceId) - Number(a.device.id === lastEditorDeviceId));
+    const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Selecione um dispositivo para executar o código'
+    });
+    if (selected) {
+        lastEditorDeviceId = selected.device.id;
+    }
+    return selected?.device;
+}
+
+/**
+ * Envia um trecho do documento ao dispositivo escolhido
+ */
+async function runEditorCode(document: vscode.TextDocument, range: vscode.Range, label: string): Promise<void> {
+    const code = dedent(document.getText(range));
+    if (!code.trim()) {
+        return;
+    }
+
+    const device = await pickEditorDevice();
+    if (!device) {
+        return;
+    }
+
+    await replManager.runCode(device.id, code, `${label} de ${path.basename(document.fileName)}`, {
+        path: document.fileName,
+        lineOffset: range.start.line
+    });
+}
+
+async function runEditorLine(editor: vscode.TextEditor): Promise<void> {
+    const line = editor.document.lineAt(editor.selection.active.line);
+    await runEditorCode(editor.document, line.range, `linha ${line.lineNumber + 1}`);
+}
+
 export function deactivate() {
     if (deviceManager) {
         deviceManager.dispose();
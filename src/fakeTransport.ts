@@ -0,0 +1,571 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { Transport, TransportSignals } from './transport';
+
+/** Banner exibido pela placa simulada ao iniciar e ao voltar do modo raw */
+const FAKE_BANNER = 'MicroPython v1.22.0 on 2024-01-01; Fake ESP32 with ESP32\r\nType "help()" for more information.\r\n';
+
+/** Janela de controle de fluxo anunciada no modo raw-paste */
+const FAKE_PASTE_WINDOW = 128;
+
+/**
+ * Saída produzida por uma regra do dispositivo simulado
+ */
+export interface FakeOutput {
+    stdout?: string;
+    stderr?: string;
+    /** Código que não termina sozinho (ex.: `while True:`); só para com Ctrl+C */
+    blocking?: boolean;
+}
+
+/**
+ * Regra de resposta do dispositivo simulado
+ *
+ * Quando o código recebido casa com `pattern`, `respond` produz a saída usando
+ * o estado da placa virtual. A primeira regra que casar é usada.
+ */
+export interface FakeDeviceRule {
+    pattern: RegExp;
+    respond: (match: RegExpMatchArray, device: FakeDeviceState) => FakeOutput | string;
+}
+
+export interface FakeDeviceOptions {
+    /** Regras adicionais, avaliadas antes das regras padrão */
+    rules?: FakeDeviceRule[];
+    /** Conteúdo inicial do sistema de arquivos virtual */
+    files?: Record<string, string | Buffer>;
+}
+
+/**
+ * Estado da placa simulada: sistema de arquivos virtual e memória
+ */
+export class FakeDeviceState {
+    readonly files: Map<string, Buffer> = new Map();
+    readonly directories: Set<string> = new Set(['/']);
+    openFile: { path: string, position: number } | undefined;
+    memFree = 112 * 1024;
+    memAlloc = 16 * 1024;
+    /** Resposta de `machine.unique_id()` em hexadecimal */
+    uniqueId = 'fa4e00000000';
+    /** Momento do "boot", base de `time.ticks_ms()` */
+    readonly bootTime = Date.now();
+    /** Tamanho do sistema de arquivos virtual (bytes) */
+    filesystemSize = 2 * 1024 * 1024;
+
+    writeFile(filePath: string, content: Buffer): void {
+        this.mkdirs(this.parentOf(filePath));
+        this.files.set(filePath, content);
+    }
+
+    mkdirs(dirPath: string): void {
+        let current = '';
+        for (const part of dirPath.split('/').filter(Boolean)) {
+            current += `/${part}`;
+            this.directories.add(current);
+        }
+    }
+
+    /**
+     * Lista entradas diretas de um diretório
+     */
+    list(dirPath: string): { name: string, isDirectory: boolean, size: number }[] | undefined {
+        const dir = this.normalize(dirPath);
+        if (!this.directories.has(dir)) {
+            return undefined;
+        }
+
+        const prefix = dir === '/' ? '/' : `${dir}/`;
+        const entries: { name: string, isDirectory: boolean, size: number }[] = [];
+        for (const subdir of this.directories) {
+            if (subdir !== dir && subdir.startsWith(prefix) && !subdir.substring(prefix.length).includes('/')) {
+                entries.push({ name: subdir.substring(prefix.length), isDirectory: true, size: 0 });
+            }
+        }
+        for (const [filePath, content] of this.files) {
+            if (filePath.startsWith(prefix) && !filePath.substring(prefix.length).includes('/')) {
+                entries.push({ name: filePath.substring(prefix.length), isDirectory: false, size: content.length });
+            }
+        }
+        return entries.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * Remove arquivo ou diretório (recursivamente)
+     */
+    remove(targetPath: string): boolean {
+        const target = this.normalize(targetPath);
+        if (this.files.delete(target)) {
+            return true;
+        }
+        if (!this.directories.has(target) || target === '/') {
+            return false;
+        }
+        for (const filePath of Array.from(this.files.keys())) {
+            if (filePath.startsWith(`${target}/`)) {
+                this.files.delete(filePath);
+            }
+        }
+        for (const dir of Array.from(this.directories)) {
+            if (dir === target || dir.startsWith(`${target}/`)) {
+                this.directories.delete(dir);
+            }
+        }
+        return true;
+    }
+
+    normalize(targetPath: string): string {
+        const normalized = ('/' + targetPath).replace(/\/+/g, '/').replace(/\/$/, '');
+        return normalized || '/';
+    }
+
+    private parentOf(filePath: string): string {
+        return filePath.substring(0, filePath.lastIndexOf('/')) || '/';
+    }
+}
+
+function enoent(): FakeOutput {
+    return { stderr: 'Traceback (most recent call last):\n  File "<stdin>", line 1, in <module>\nOSError: [Errno 2] ENOENT\n' };
+}
+
+/**
+ * Regras padrão: reconhecem os trechos de código enviados pela própria extensão
+ */
+export const DEFAULT_FAKE_RULES: FakeDeviceRule[] = [
+    {
+        // Informações completas (DeviceManager.getDeviceInfo)
+        pattern: /print\(json\.dumps\(_mpm_info\(\)\)\)/,
+        respond: (_match, device) => {
+            const used = Array.from(device.files.values()).reduce((total, content) => total + content.length, 0);
+            return JSON.stringify({
+                impl: ['micropython', '1.22.0', 'Fake ESP32 with ESP32', 6],
+                machine: 'Fake ESP32 with ESP32',
+                release: '1.22.0',
+                fs: [device.filesystemSize, device.filesystemSize - used],
+                uid: device.uniqueId,
+                freq: 240000000,
+                flash: 4 * 1024 * 1024,
+                ticks: Date.now() - device.bootTime,
+                mem: [device.memFree, device.memAlloc]
+            }) + '\n';
+        }
+    },
+    {
+        // Detecção de firmware
+        pattern: /sys\.implementation\.name/,
+        respond: () => 'micropython 1.22.0\n'
+    },
+    {
+        // Identificação da placa (perfil persistido)
+        pattern: /machine\.unique_id\(\)/,
+        respond: (_match, device) => `${device.uniqueId}|Fake ESP32 with ESP32\n`
+    },
+    {
+        // Upload: criação dos diretórios pais
+        pattern: /for _mpm_part in ("[^"\n]*")\.split/,
+        respond: (match, device) => {
+            const filePath = device.normalize(JSON.parse(match[1]));
+            device.mkdirs(filePath.substring(0, filePath.lastIndexOf('/')) || '/');
+            return '';
+        }
+    },
+    {
+        // Upload: abertura do arquivo de destino
+        pattern: /_mpm_f = open\(("[^"\n]*"), 'wb'\)/,
+        respond: (match, device) => {
+            const filePath = device.normalize(JSON.parse(match[1]));
+            device.writeFile(filePath, Buffer.alloc(0));
+            device.openFile = { path: filePath, position: 0 };
+            return '';
+        }
+    },
+    {
+        // Upload: bloco em base64
+        pattern: /^_mpm_f\.write\(ubinascii\.a2b_base64\('([^']*)'\)\)$/,
+        respond: (match, device) => {
+            if (!device.openFile) {
+                return { stderr: "NameError: name '_mpm_f' isn't defined\n" };
+            }
+            const current = device.files.get(device.openFile.path) || Buffer.alloc(0);
+            device.files.set(device.openFile.path, Buffer.concat([current, Buffer.from(match[1], 'base64')]));
+            return '';
+        }
+    },
+    {
+        pattern: /^_mpm_f\.close\(\)/,
+        respond: (_match, device) => {
+            device.openFile = undefined;
+            return '';
+        }
+    },
+    {
+        // Download: abertura do arquivo de origem
+        pattern: /_mpm_f = open\(("[^"\n]*"), 'rb'\)/,
+        respond: (match, device) => {
+            const filePath = device.normalize(JSON.parse(match[1]));
+            if (!device.files.has(filePath)) {
+                return enoent();
+            }
+            device.openFile = { path: filePath, position: 0 };
+            return '';
+        }
+    },
+    {
+        // Download: bloco em base64
+        pattern: /^print\(ubinascii\.b2a_base64\(_mpm_f\.read\((\d+)\)\)/,
+        respond: (match, device) => {
+            if (!device.openFile) {
+                return { stderr: "NameError: name '_mpm_f' isn't defined\n" };
+            }
+            const content = device.files.get(device.openFile.path) || Buffer.alloc(0);
+            const chunk = content.subarray(device.openFile.position, device.openFile.position + parseInt(match[1]));
+            device.openFile.position += chunk.length;
+            return chunk.toString('base64') + '\n';
+        }
+    },
+    {
+        // Verificação de integridade (tamanho e SHA-256)
+        pattern: /_mpm_size = os\.stat\(("[^"\n]*")\)\[6\]/,
+        respond: (match, device) => {
+            const content = device.files.get(device.normalize(JSON.parse(match[1])));
+            if (!content) {
+                return enoent();
+            }
+            return `${content.length} ${crypto.createHash('sha256').update(content).digest('hex')}\n`;
+        }
+    },
+    {
+        // Estrutura de arquivos para a árvore (DeviceManager.getFileStructure)
+        pattern: /dir_path = ("[^"\n]*")/,
+        respond: (match, device) => {
+            const entries = device.list(JSON.parse(match[1]));
+            if (!entries) {
+                return enoent();
+            }
+            return entries.map(entry => entry.isDirectory
+                ? `${entry.name}|DIR|N/A\n`
+                : `${entry.name}|FILE|${entry.size}\n`).join('');
+        }
+    },
+    {
+        // Listagem em JSON (FileManager.listFiles)
+        pattern: /list_dir\('([^']*)'\)/,
+        respond: (match, device) => {
+            const entries = device.list(match[1]) || [];
+            return JSON.stringify(entries.map(entry => ({
+                name: entry.name,
+                is_dir: entry.isDirectory,
+                size: entry.size
+            }))) + '\n';
+        }
+    },
+    {
+        // Remoção recursiva (FileManager.deleteFile)
+        pattern: /^rm_recursive\('([^']*)'\)$/m,
+        respond: (match, device) => device.remove(match[1]) ? 'OK\n' : 'Error: [Errno 2] ENOENT\n'
+    },
+    {
+        pattern: /os\.(remove|rmdir)\('([^']*)'\)/,
+        respond: (match, device) => device.remove(match[2]) ? '' : enoent()
+    },
+    {
+        // Listagem formatada (DeviceManager.listFiles)
+        pattern: /os\.listdir\('([^']*)'\)/,
+        respond: (match, device) => {
+            const entries = device.list(match[1]);
+            if (!entries) {
+                return 'Erro: [Errno 2] ENOENT\n';
+            }
+            return entries.map(entry => entry.isDirectory
+                ? `${entry.name.padEnd(20)} <dir>\n`
+                : `${entry.name.padEnd(20)} ${String(entry.size).padStart(8)} bytes\n`).join('');
+        }
+    },
+    {
+        pattern: /print\(gc\.mem_free\(\), gc\.mem_alloc\(\)\)/,
+        respond: (match, device) => {
+            let output = `${device.memFree} ${device.memAlloc}\n`;
+            if (match.input!.includes('micropython.mem_info()')) {
+                // Maior bloco livre: metade da memória livre, em blocos de 16 bytes
+                const total = device.memFree + device.memAlloc;
+                output += 'block 16\n' +
+                    'stack: 736 out of 15360\n' +
+                    `GC: total: ${total}, used: ${device.memAlloc}, free: ${device.memFree}\n` +
+                    ` No. of 1-blocks: 12, 2-blocks: 6, max blk sz: 32, max free sz: ${Math.floor(device.memFree / 32)}\n`;
+            }
+            return output;
+        }
+    },
+    {
+        pattern: /gc\.mem_free\(\)/,
+        respond: (_match, device) => {
+            const total = device.memFree + device.memAlloc;
+            return `Memória Total: ${(total / 1024).toFixed(2)} KB\n` +
+                `Memória Usada: ${(device.memAlloc / 1024).toFixed(2)} KB\n` +
+                `Memória Livre: ${(device.memFree / 1024).toFixed(2)} KB (${(device.memFree / total * 100).toFixed(2)}%)\n`;
+        }
+    },
+    {
+        // Divisão por zero em uma linha própria (traceback com o número da linha)
+        pattern: /^\s*(?:print\()?\d+\s*\/\s*0\)?\s*$/m,
+        respond: (match) => {
+            const line = match.input!.substring(0, match.index).split('\n').length;
+            return { stderr: `Traceback (most recent call last):\n  File "<stdin>", line ${line}, in <module>\nZeroDivisionError: divide by zero\n` };
+        }
+    },
+    {
+        // Laço infinito: fica em execução até receber Ctrl+C
+        pattern: /^while True:/m,
+        respond: () => ({ blocking: true })
+    },
+    {
+        // print() de literais e aritmética inteira simples
+        pattern: /^print\((.+)\)$/,
+        respond: (match) => {
+            const expression = match[1].trim();
+            const literal = expression.match(/^(['"])(.*)\1$/);
+            if (literal) {
+                return `${literal[2]}\n`;
+            }
+            if (/^[\d\s+\-*()]+$/.test(expression)) {
+                return `${Function(`return (${expression});`)()}\n`;
+            }
+            return { stderr: `NameError: name '${expression}' isn't defined\n` };
+        }
+    }
+];
+
+/**
+ * Transporte em memória que simula uma placa MicroPython
+ *
+ * Problema: Fluxos de conexão, upload, listagem e REPL só podiam ser exercitados com hardware USB
+ * Solução: Emula banner, REPL amigável, raw REPL (inclusive raw-paste) e um sistema de arquivos virtual
+ * Exemplo: `connectDevice('fake://esp32')` conecta a uma placa que aceita uploads e lista /boot.py
+ */
+export class FakeTransport implements Transport {
+    readonly device = new FakeDeviceState();
+
+    private dataEmitter = new vscode.EventEmitter<Buffer>();
+    private errorEmitter = new vscode.EventEmitter<Error>();
+    private rules: FakeDeviceRule[];
+    private opened = false;
+    private mode: 'friendly' | 'raw' | 'rawPaste' | 'running' = 'friendly';
+    private modeAfterRun: 'friendly' | 'raw' = 'raw';
+    private lineBuffer = '';
+    private codeBuffer: number[] = [];
+    private pasteRequestStage = 0;
+    private pasteWindowRemain = 0;
+
+    readonly onData = this.dataEmitter.event;
+    readonly onError = this.errorEmitter.event;
+
+    constructor(private address: string, options: FakeDeviceOptions = {}) {
+        this.rules = [...(options.rules || []), ...DEFAULT_FAKE_RULES];
+
+        // Endereços diferentes simulam placas diferentes
+        this.device.uniqueId = crypto.createHash('sha256').update(address).digest('hex').substring(0, 12);
+
+        const files = options.files || {
+            '/boot.py': '# This file is executed on every boot\n',
+            '/main.py': 'print("Hello from fake device")\n'
+        };
+        for (const [filePath, content] of Object.entries(files)) {
+            this.device.writeFile(filePath, Buffer.isBuffer(content) ? content : Buffer.from(content));
+        }
+        this.device.mkdirs('/lib');
+    }
+
+    get description(): string {
+        return this.address;
+    }
+
+    get isOpen(): boolean {
+        return this.opened;
+    }
+
+    async open(): Promise<void> {
+        this.opened = true;
+        this.emit(FAKE_BANNER + '>>> ');
+    }
+
+    async write(data: string | Buffer): Promise<void> {
+        if (!this.opened) {
+            throw new Error('Porta não está aberta');
+        }
+        for (const byte of Buffer.isBuffer(data) ? data : Buffer.from(data)) {
+            this.handleByte(byte);
+        }
+    }
+
+    async close(): Promise<void> {
+        this.opened = false;
+    }
+
+    async setSignals(_signals: TransportSignals): Promise<void> {
+        // Sem efeito: a placa simulada não possui linhas de controle
+    }
+
+    /**
+     * Executa código com as regras configuradas
+     */
+    private run(code: string): FakeOutput {
+        const trimmed = code.trim();
+        for (const rule of this.rules) {
+            const match = trimmed.match(rule.pattern);
+            if (match) {
+                const output = rule.respond(match, this.device);
+                return typeof output === 'string' ? { stdout: output } : output;
+            }
+        }
+        // Código não reconhecido (imports, atribuições...) executa sem saída
+        return {};
+    }
+
+    private handleByte(byte: number): void {
+        switch (this.mode) {
+            case 'friendly':
+                this.handleFriendlyByte(byte);
+                break;
+            case 'raw':
+                this.handleRawByte(byte);
+                break;
+            case 'rawPaste':
+                this.handleRawPasteByte(byte);
+                break;
+            case 'running':
+                this.handleRunningByte(byte);
+                break;
+        }
+    }
+
+    private handleFriendlyByte(byte: number): void {
+        if (byte === 0x01) {
+            this.mode = 'raw';
+            this.codeBuffer = [];
+            this.emit('\r\nraw REPL; CTRL-B to exit\r\n>');
+        } else if (byte === 0x03) {
+            this.lineBuffer = '';
+            this.emit('\r\n>>> ');
+        } else if (byte === 0x04) {
+            this.lineBuffer = '';
+            this.emit('MPY: soft reboot\r\n' + FAKE_BANNER + '>>> ');
+        } else if (byte === 0x0d) {
+            const line = this.lineBuffer;
+            this.lineBuffer = '';
+            const output = line.trim() ? this.run(line) : {};
+            if (output.blocking) {
+                this.startRunning('friendly', '\r\n' + this.toTerminal(output.stdout || ''));
+                return;
+            }
+            this.emit('\r\n' + this.toTerminal((output.stdout || '') + (output.stderr || '')) + '>>> ');
+        } else if (byte === 0x08 || byte === 0x7f) {
+            if (this.lineBuffer.length > 0) {
+                this.lineBuffer = this.lineBuffer.slice(0, -1);
+                this.emit('\b \b');
+            }
+        } else if (byte >= 0x20) {
+            const char = String.fromCharCode(byte);
+            this.lineBuffer += char;
+            this.emit(char);
+        }
+    }
+
+    private handleRawByte(byte: number): void {
+        // Pedido de raw-paste: \x05 'A' \x01 com buffer vazio
+        if (this.codeBuffer.length === 0 && this.pasteRequestStage < 3 && byte === [0x05, 0x41, 0x01][this.pasteRequestStage]) {
+            this.pasteRequestStage++;
+            if (this.pasteRequestStage === 3) {
+                this.pasteRequestStage = 0;
+                this.mode = 'rawPaste';
+                this.pasteWindowRemain = FAKE_PASTE_WINDOW;
+                const header = Buffer.from([0x52, 0x01, 0, 0]);
+                header.writeUInt16LE(FAKE_PASTE_WINDOW, 2);
+                this.emit(header);
+            }
+            return;
+        }
+        this.pasteRequestStage = 0;
+
+        if (byte === 0x01) {
+            this.codeBuffer = [];
+            this.emit('raw REPL; CTRL-B to exit\r\n>');
+        } else if (byte === 0x02) {
+            this.mode = 'friendly';
+            this.emit('\r\n' + FAKE_BANNER + '>>> ');
+        } else if (byte === 0x03) {
+            this.codeBuffer = [];
+        } else if (byte === 0x04) {
+            if (this.codeBuffer.length === 0) {
+                this.emit('OK\x04\x04>');
+                return;
+            }
+            this.emit('OK');
+            this.execute();
+        } else {
+            this.codeBuffer.push(byte);
+        }
+    }
+
+    private handleRawPasteByte(byte: number): void {
+        if (byte === 0x04) {
+            this.mode = 'raw';
+            this.emit('\x04');
+            this.execute();
+            return;
+        }
+
+        this.codeBuffer.push(byte);
+        this.pasteWindowRemain--;
+        if (this.pasteWindowRemain === 0) {
+            this.pasteWindowRemain = FAKE_PASTE_WINDOW;
+            this.emit('\x01');
+        }
+    }
+
+    /**
+     * Enquanto o código bloqueante roda, apenas Ctrl+C é tratado
+     */
+    private handleRunningByte(byte: number): void {
+        if (byte !== 0x03) {
+            return;
+        }
+
+        const traceback = 'Traceback (most recent call last):\r\n  File "<stdin>", line 2, in <module>\r\nKeyboardInterrupt: \r\n';
+        this.mode = this.modeAfterRun;
+        this.emit(this.modeAfterRun === 'raw' ? `\x04${traceback}\x04>` : `${traceback}>>> `);
+    }
+
+    private startRunning(from: 'friendly' | 'raw', output: string): void {
+        this.mode = 'running';
+        this.modeAfterRun = from;
+        if (output) {
+            this.emit(output);
+        }
+    }
+
+    /**
+     * Executa o código acumulado e emite os frames do raw REPL
+     */
+    private execute(): void {
+        const code = Buffer.from(this.codeBuffer).toString('utf8');
+        this.codeBuffer = [];
+        const output = this.run(code);
+        if (output.blocking) {
+            this.startRunning('raw', this.toTerminal(output.stdout || ''));
+            return;
+        }
+        this.emit(this.toTerminal(output.stdout || '') + '\x04' + this.toTerminal(output.stderr || '') + '\x04>');
+    }
+
+    private toTerminal(text: string): string {
+        return text.replace(/\r?\n/g, '\r\n');
+    }
+
+    private emit(data: string | Buffer): void {
+        const chunk = Buffer.isBuffer(data) ? data : Buffer.from(data, 'utf8');
+        setImmediate(() => {
+            if (this.opened) {
+                this.dataEmitter.fire(chunk);
+            }
+        });
+    }
+}
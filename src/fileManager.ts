@@ -27,9 +27,10 @@ def list_dir(path):
         print("[]")
 list_dir('${remotePath}')
 `;
-        const rawOutput = await this.deviceManager.executeCommand(deviceId, command);
+        const result = await this.deviceManager.executeCommand(deviceId, command);
+        const rawOutput = result.stdout;
 
-        // Extrai o JSON da saída do REPL. O JSON estará entre '[' e ']'.
+        // Extrai o JSON do stdout do raw REPL. O JSON estará entre '[' e ']'.
         const jsonMatch = rawOutput.match(/(\[.*\])/s);
         if (jsonMatch && jsonMatch[1]) {
             try {
@@ -71,32 +72,17 @@ def rm_recursive(path):
         print("Error: " + str(e))
 rm_recursive('${remotePath}')
 `;
-        const output = await this.deviceManager.executeCommand(deviceId, command);
-        if (output.includes("Error")) {
-            throw new Error(`Não foi possível deletar '${remotePath}': ${output}`);
+        const result = await this.deviceManager.executeCommand(deviceId, command);
+        if (result.exception || result.stdout.includes("Error")) {
+            throw new Error(`Não foi possível deletar '${remotePath}': ${result.stdout}${result.stderr}`);
         }
     }
 
     /**
      * Lê o conteúdo de um arquivo do dispositivo para download.
      */
-    async downloadFile(deviceId: string, remotePath: string): Promise<string> {
-        // Entra no modo raw para receber os dados do arquivo sem interferência do REPL.
-        await this.deviceManager.executeCommand(deviceId, '\x01'); // Ctrl+A
-
-        const command = `
-with open('${remotePath}', 'r') as f:
-    print(f.read())
-`;
-        // Envia o comando de leitura.
-        await this.deviceManager.executeCommand(deviceId, command);
-        
-        // Sai do modo raw e captura a saída.
-        const output = await this.deviceManager.executeCommand(deviceId, '\x04'); // Ctrl+D para executar e obter a saída
-
-        // A saída real do arquivo estará contida na resposta do comando Ctrl+D.
-        // Precisamos limpá-la de possíveis artefatos do REPL.
-        const cleanOutput = output.replace('OK', '').replace(/>>>/g, '').trim();
-        return cleanOutput;
+    async downloadFile(deviceId: string, remotePath: string): Promise<Buffer> {
+        // Usa o mesmo caminho binário e verificado do DeviceManager.
+        return this.deviceManager.readFile(deviceId, remotePath);
     }
 }
\ No newline at end of file
@@ -0,0 +1,334 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { DeviceManager } from './deviceManager';
+import { HeapSample } from './types';
+import { formatBytes } from './deviceDashboard';
+
+/** Amostras consideradas na detecção de vazamento */
+const LEAK_WINDOW = 12;
+/** Queda mínima do heap livre dentro da janela para alertar (bytes) */
+const LEAK_MIN_DROP_BYTES = 1024;
+/** Fração mínima de amostras consecutivas em queda dentro da janela */
+const LEAK_MIN_DECREASE_RATIO = 0.75;
+
+/**
+ * Buffer circular de capacidade fixa: ao encher, descarta o item mais antigo
+ */
+export class RingBuffer<T> {
+    private items: T[] = [];
+    private start = 0;
+
+    constructor(private capacity: number) {}
+
+    get length(): number {
+        return this.items.length;
+    }
+
+    push(item: T): void {
+        if (this.items.length < this.capacity) {
+            this.items.push(item);
+        } else {
+            this.items[this.start] = item;
+            this.start = (this.start + 1) % this.capacity;
+        }
+    }
+
+    /**
+     * Itens do mais antigo para o mais recente
+     */
+    toArray(): T[] {
+        return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+    }
+
+    /**
+     * Muda a capacidade mantendo os itens mais recentes
+     */
+    resize(capacity: number): void {
+        const items = this.toArray().slice(-capacity);
+        this.capacity = capacity;
+        this.items = items;
+        this.start = 0;
+    }
+}
+
+/**
+ * Monitor contínuo do heap com histórico, gráfico e alerta de vazamento
+ *
+ * Problema: "Info de Memória" era uma leitura avulsa; um vazamento só aparecia quando a placa travava
+ * Solução: Amostra `gc.mem_free()`/`gc.mem_alloc()` (e a fragmentação de `micropython.mem_info()`)
+ *          no intervalo configurado, guarda as amostras em um buffer circular, desenha o histórico
+ *          em um webview e alerta quando o heap livre após `gc.collect()` cai de forma consistente
+ * Exemplo: Um script que acumula itens em uma lista global dispara "Possível vazamento de memória"
+ */
+export class MemoryMonitor implements vscode.Disposable {
+    private histories: Map<string, RingBuffer<HeapSample>> = new Map();
+    // Série da detecção de vazamento: só amostras cujo heap livre mudou. Amostras só são lidas
+    // entre execuções, e com a placa ociosa as leituras seguidas se repetem
+    private trends: Map<string, RingBuffer<HeapSample>> = new Map();
+    private timers: Map<string, NodeJS.Timeout> = new Map();
+    // Dispositivos com amostra em andamento (o timer não acumula leituras)
+    private sampling: Set<string> = new Set();
+    private leakAlerted: Set<string> = new Set();
+    private panels: Map<string, vscode.WebviewPanel> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    private _onDidSample = new vscode.EventEmitter<{ deviceId: string, sample: HeapSample }>();
+    /** Nova amostra registrada no histórico */
+    readonly onDidSample: vscode.Event<{ deviceId: string, sample: HeapSample }> = this._onDidSample.event;
+
+    constructor(private deviceManager: DeviceManager) {
+        this.disposables.push(
+            deviceManager.onDidConnect(device => this.updateTimer(device.id)),
+            deviceManager.onDidDisconnect(device => this.forget(device.id)),
+            deviceManager.settings.onDidChange(() => this.applySettings())
+        );
+        deviceManager.getConnectedDevices().forEach(device => this.updateTimer(device.id));
+    }
+
+    /**
+     * Amostras guardadas, da mais antiga para a mais recente
+     */
+    getHistory(deviceId: string): HeapSample[] {
+        return this.histories.get(deviceId)?.toArray() || [];
+    }
+
+    /**
+     * Abre o gráfico do dispositivo; com o painel aberto, amostra mesmo se `memoryMonitoring` estiver desligado
+     */
+    show(deviceId: string): void {
+        const device = this.deviceManager.getDevice(deviceId);
+        if (!device) {
+            throw new Error('Dispositivo não conectado');
+        }
+
+        const existing = this.panels.get(deviceId);
+        if (existing) {
+            existing.reveal();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'micropython-memory',
+            `Memória: ${device.name}`,
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        panel.webview.html = this.getHtml(panel.webview, this.getHistory(deviceId));
+        panel.onDidDispose(() => {
+            this.panels.delete(deviceId);
+            this.updateTimer(deviceId);
+        });
+        this.panels.set(deviceId, panel);
+        this.updateTimer(deviceId);
+        this.sample(deviceId);
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.timers.forEach(timer => clearInterval(timer));
+        this.timers.clear();
+        this.panels.forEach(panel => panel.dispose());
+        this.panels.clear();
+        this._onDidSample.dispose();
+    }
+
+    private applySettings(): void {
+        const { memoryHistorySize } = this.deviceManager.settings.value;
+        this.histories.forEach(history => history.resize(memoryHistorySize));
+
+        // Reinicia os timers com o novo intervalo
+        this.timers.forEach(timer => clearInterval(timer));
+        this.timers.clear();
+        this.deviceManager.getConnectedDevices().forEach(device => this.updateTimer(device.id));
+    }
+
+    /**
+     * Liga ou desliga a amostragem periódica conforme a configuração e os painéis abertos
+     */
+    private updateTimer(deviceId: string): void {
+        const enabled = this.deviceManager.settings.value.memoryMonitoring || this.panels.has(deviceId);
+        const timer = this.timers.get(deviceId);
+
+        if (enabled && !timer) {
+            this.timers.set(deviceId, setInterval(() => this.sample(deviceId), this.deviceManager.settings.value.memoryMonitorInterval));
+        } else if (!enabled && timer) {
+            clearInterval(timer);
+            this.timers.delete(deviceId);
+        }
+    }
+
+    private forget(deviceId: string): void {
+        const timer = this.timers.get(deviceId);
+        if (timer) {
+            clearInterval(timer);
+        }
+        this.timers.delete(deviceId);
+        this.histories.delete(deviceId);
+        this.trends.delete(deviceId);
+        this.leakAlerted.delete(deviceId);
+        this.panels.get(deviceId)?.dispose();
+    }
+
+    private async sample(deviceId: string): Promise<void> {
+        if (this.sampling.has(deviceId) || !this.deviceManager.getDevice(deviceId)?.isConnected) {
+            return;
+        }
+
+        this.sampling.add(deviceId);
+        try {
+            const sample = await this.deviceManager.sampleHeap(deviceId);
+            if (!sample) {
+                // REPL ocupado: tenta de novo no próximo intervalo
+                return;
+            }
+
+            let history = this.histories.get(deviceId);
+            if (!history) {
+                history = new RingBuffer(this.deviceManager.settings.value.memoryHistorySize);
+                this.histories.set(deviceId, history);
+            }
+            history.push(sample);
+
+            this._onDidSample.fire({ deviceId, sample });
+            // A capacidade vai junto: `memoryHistorySize` pode mudar com o painel aberto
+            this.panels.get(deviceId)?.webview.postMessage({
+                command: 'sample',
+                sample,
+                capacity: this.deviceManager.settings.value.memoryHistorySize
+            });
+            let trend = this.trends.get(deviceId);
+            if (!trend) {
+                trend = new RingBuffer(LEAK_WINDOW);
+                this.trends.set(deviceId, trend);
+            }
+            if (trend.toArray().pop()?.free !== sample.free) {
+                trend.push(sample);
+                this.checkLeak(deviceId, trend.toArray());
+            }
+        } catch (error) {
+            console.log(`Erro ao amostrar memória de ${deviceId}:`, error);
+        } finally {
+            this.sampling.delete(deviceId);
+        }
+    }
+
+    /**
+     * Alerta uma vez por tendência: heap livre caindo na maioria das últimas mudanças
+     *
+     * `samples` não tem leituras repetidas, então um vazamento que cresce a cada execução
+     * aparece como quedas seguidas mesmo com longos intervalos ociosos entre elas.
+     */
+    private checkLeak(deviceId: string, samples: HeapSample[]): void {
+        const window = samples.slice(-LEAK_WINDOW);
+        if (window.length < LEAK_WINDOW) {
+            return;
+        }
+
+        const first = window[0];
+        const last = window[window.length - 1];
+        if (last.free >= first.free) {
+            // Tendência interrompida: um novo vazamento poderá ser alertado
+            this.leakAlerted.delete(deviceId);
+            return;
+        }
+
+        const decreases = window.slice(1).filter((sample, index) => sample.free < window[index].free).length;
+        const drop = first.free - last.free;
+        if (this.leakAlerted.has(deviceId) || drop < LEAK_MIN_DROP_BYTES || decreases / (window.length - 1) < LEAK_MIN_DECREASE_RATIO) {
+            return;
+        }
+
+        this.leakAlerted.add(deviceId);
+        const device = this.deviceManager.getDevice(deviceId);
+        const minutes = Math.max(1, Math.round((last.time - first.time) / 60000));
+        vscode.window.showWarningMessage(
+            `Possível vazamento de memória em ${device?.name || deviceId}: o heap livre caiu ${formatBytes(drop)} ` +
+            `em ${minutes} min, mesmo após gc.collect()`,
+            'Abrir Monitor'
+        ).then(selection => {
+            if (selection) {
+                this.show(deviceId);
+            }
+        });
+    }
+
+    private getHtml(webview: vscode.Webview, samples: HeapSample[]): string {
+        const nonce = crypto.randomBytes(16).toString('hex');
+        const { memoryHistorySize } = this.deviceManager.settings.value;
+
+        return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px; }
+    #stats span { margin-right: 24px; }
+    .muted { color: var(--vscode-descriptionForeground); }
+    svg { width: 100%; height: 320px; }
+    .axis { stroke: var(--vscode-widget-border, #888); stroke-width: 1; }
+    .free { fill: none; stroke: var(--vscode-charts-green); stroke-width: 2; }
+    .allocated { fill: none; stroke: var(--vscode-charts-blue); stroke-width: 2; }
+    text { fill: var(--vscode-descriptionForeground); font-size: 11px; }
+    .legend-free { color: var(--vscode-charts-green); }
+    .legend-allocated { color: var(--vscode-charts-blue); }
+</style>
+</head>
+<body>
+<p id="stats" class="muted">Aguardando amostras...</p>
+<p><span class="legend-free">■ livre</span> &nbsp; <span class="legend-allocated">■ alocado</span></p>
+<svg id="chart" viewBox="0 0 800 320" preserveAspectRatio="none"></svg>
+<script nonce="${nonce}">
+    const samples = ${JSON.stringify(samples)};
+    let capacity = ${memoryHistorySize};
+    const chart = document.getElementById('chart');
+    const stats = document.getElementById('stats');
+    const kb = bytes => (bytes / 1024).toFixed(1) + ' KB';
+
+    function draw() {
+        if (samples.length === 0) {
+            return;
+        }
+        // Laços em vez de Math.max(...): o histórico pode ter milhares de amostras
+        let max = 0;
+        let minFree = Infinity;
+        for (const s of samples) {
+            max = Math.max(max, s.free + s.allocated);
+            minFree = Math.min(minFree, s.free);
+        }
+        const start = samples[0].time;
+        const span = Math.max(1, samples[samples.length - 1].time - start);
+        const x = s => 40 + (s.time - start) / span * 750;
+        const y = value => 300 - value / max * 280;
+        const line = key => samples.map(s => x(s).toFixed(1) + ',' + y(s[key]).toFixed(1)).join(' ');
+
+        chart.innerHTML =
+            '<line class="axis" x1="40" y1="300" x2="790" y2="300"/>' +
+            '<line class="axis" x1="40" y1="20" x2="40" y2="300"/>' +
+            '<text x="0" y="24">' + kb(max) + '</text><text x="0" y="300">0</text>' +
+            '<polyline class="free" points="' + line('free') + '"/>' +
+            '<polyline class="allocated" points="' + line('allocated') + '"/>';
+
+        const last = samples[samples.length - 1];
+        stats.textContent = 'Livre: ' + kb(last.free) + ' · Alocado: ' + kb(last.allocated) +
+            ' · Mínimo livre: ' + kb(minFree) +
+            (last.fragmentation !== undefined ? ' · Fragmentação: ' + Math.round(last.fragmentation * 100) + '% (maior bloco ' + kb(last.largestFree) + ')' : '') +
+            ' · ' + samples.length + ' amostras';
+    }
+
+    window.addEventListener('message', event => {
+        if (event.data.command === 'sample') {
+            samples.push(event.data.sample);
+            capacity = event.data.capacity;
+            if (samples.length > capacity) {
+                samples.splice(0, samples.length - capacity);
+            }
+            draw();
+        }
+    });
+    draw();
+</script>
+</body>
+</html>`;
+    }
+}
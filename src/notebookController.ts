@@ -0,0 +1,199 @@
+import * as vscode from 'vscode';
+import { DeviceManager } from './deviceManager';
+import { DeviceError } from './deviceError';
+import { MPYNB_NOTEBOOK_TYPE } from './notebookSerializer';
+import { ESP32Device } from './types';
+
+/** Tipos de notebook atendidos pelos kernels dos dispositivos */
+const NOTEBOOK_TYPES = ['jupyter-notebook', MPYNB_NOTEBOOK_TYPE];
+
+/** Prefixo dos IDs dos controllers (usado na condição `notebookKernel` do package.json) */
+const CONTROLLER_ID_PREFIX = 'micropython-kernel-';
+
+interface DeviceKernel {
+    deviceId: string;
+    controllers: vscode.NotebookController[];
+    executionOrder: number;
+}
+
+/**
+ * Kernels de notebook que executam células em placas conectadas
+ *
+ * Problema: Prototipar código de sensores exigia alternar entre editor, upload e REPL
+ * Solução: Um `NotebookController` por dispositivo conectado (para .ipynb e .mpynb); cada célula
+ *          passa pela fila de comandos, com stdout/stderr ao vivo e tracebacks como saídas de erro
+ * Exemplo: Selecionar o kernel "Estufa" e executar `print(sensor.read())` mostra a leitura na célula
+ */
+export class DeviceNotebookKernels implements vscode.Disposable {
+    private kernels: Map<string, DeviceKernel> = new Map();
+    // Dispositivo selecionado como kernel de cada notebook aberto
+    private selectedDevices: Map<string, string> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private deviceManager: DeviceManager) {
+        this.disposables.push(
+            deviceManager.onDidConnect(device => this.addKernel(device)),
+            deviceManager.onDidDisconnect(device => this.removeKernel(device.id)),
+            deviceManager.onDidChangeInfo(device => this.updateLabels(device))
+        );
+        deviceManager.getConnectedDevices().forEach(device => this.addKernel(device));
+    }
+
+    /**
+     * Reinicia o kernel do notebook: soft reset da placa, que descarta as variáveis globais
+     */
+    async restart(notebook: vscode.NotebookDocument): Promise<void> {
+        const deviceId = this.selectedDevices.get(notebook.uri.toString());
+        const kernel = deviceId ? this.kernels.get(deviceId) : undefined;
+        if (!deviceId || !kernel) {
+            vscode.window.showWarningMessage('Nenhum dispositivo MicroPython selecionado como kernel deste notebook');
+            return;
+        }
+
+        await this.deviceManager.resetDevice(deviceId);
+        kernel.executionOrder = 0;
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.kernels.forEach(kernel => kernel.controllers.forEach(controller => controller.dispose()));
+        this.kernels.clear();
+        this.selectedDevices.clear();
+    }
+
+    private addKernel(device: ESP32Device): void {
+        if (this.kernels.has(device.id)) {
+            return;
+        }
+
+        const kernel: DeviceKernel = { deviceId: device.id, controllers: [], executionOrder: 0 };
+        for (const notebookType of NOTEBOOK_TYPES) {
+            const controller = vscode.notebooks.createNotebookController(
+                `${CONTROLLER_ID_PREFIX}${device.id}-${notebookType}`,
+                notebookType,
+                device.name,
+                (cells, _notebook, controller) => this.executeCells(kernel, cells, controller)
+            );
+            controller.description = device.port;
+            controller.supportedLanguages = ['python'];
+            controller.supportsExecutionOrder = true;
+            controller.onDidChangeSelectedNotebooks(({ notebook, selected }) => {
+                if (selected) {
+                    this.selectedDevices.set(notebook.uri.toString(), device.id);
+                } else if (this.selectedDevices.get(notebook.uri.toString()) === device.id) {
+                    this.selectedDevices.delete(notebook.uri.toString());
+                }
+            });
+            kernel.controllers.push(controller);
+        }
+        this.kernels.set(device.id, kernel);
+    }
+
+    private removeKernel(deviceId: string): void {
+        this.kernels.get(deviceId)?.controllers.forEach(controller => controller.dispose());
+        this.kernels.delete(deviceId);
+        this.selectedDevices.forEach((selected, notebook) => {
+            if (selected === deviceId) {
+                this.selectedDevices.delete(notebook);
+            }
+        });
+    }
+
+    private updateLabels(device: ESP32Device): void {
+        this.kernels.get(device.id)?.controllers.forEach(controller => controller.label = device.name);
+    }
+
+    /**
+     * Executa as células em ordem; interromper cancela o token da execução (Ctrl+C na placa)
+     *
+     * Como no Jupyter, uma célula com erro encerra as seguintes sem executá-las.
+     */
+    private async executeCells(kernel: DeviceKernel, cells: vscode.NotebookCell[], controller: vscode.NotebookController): Promise<void> {
+        // Criadas de uma vez para que as células aguardando também possam ser canceladas
+        const executions = cells.map(cell => controller.createNotebookCellExecution(cell));
+        let failed = false;
+
+        for (const execution of executions) {
+            execution.executionOrder = ++kernel.executionOrder;
+            execution.start(Date.now());
+            await execution.clearOutput();
+
+            if (failed || execution.token.isCancellationRequested) {
+                execution.end(undefined, Date.now());
+                continue;
+            }
+
+            const success = await this.executeCell(kernel.deviceId, execution);
+            execution.end(success, Date.now());
+            failed = !success;
+        }
+    }
+
+    /**
+     * Executa uma célula com stdout/stderr exibidos à medida que chegam
+     */
+    private async executeCell(deviceId: string, execution: vscode.NotebookCellExecution): Promise<boolean> {
+        const streams: Record<'stdout' | 'stderr', { text: string, output?: vscode.NotebookCellOutput }> = {
+            stdout: { text: '' },
+            stderr: { text: '' }
+        };
+        const toItem = (stream: 'stdout' | 'stderr', text: string) => stream === 'stdout'
+            ? vscode.NotebookCellOutputItem.stdout(text)
+            : vscode.NotebookCellOutputItem.stderr(text);
+
+        try {
+            const result = await this.deviceManager.executeCommand(
+                deviceId,
+                execution.cell.document.getText(),
+                undefined,
+                execution.token,
+                chunk => {
+                    const stream = streams[chunk.stream];
+                    stream.text += chunk.text;
+                    if (stream.output) {
+                        execution.replaceOutputItems(toItem(chunk.stream, stream.text), stream.output);
+                    } else {
+                        stream.output = new vscode.NotebookCellOutput([toItem(chunk.stream, stream.text)]);
+                        execution.appendOutput(stream.output);
+                    }
+                }
+            );
+
+            if (!result.exception) {
+                return true;
+            }
+
+            // Traceback vira saída de erro no lugar do texto bruto de stderr
+            const error = DeviceError.parse(result.stderr);
+            if (error) {
+                const errorOutput = new vscode.NotebookCellOutput([vscode.NotebookCellOutputItem.error({
+                    name: error.exceptionType,
+                    message: error.detail,
+                    stack: error.traceback
+                })]);
+                if (streams.stderr.output) {
+                    await execution.replaceOutput([
+                        ...(streams.stdout.output ? [streams.stdout.output] : []),
+                        errorOutput
+                    ]);
+                } else {
+                    await execution.appendOutput(errorOutput);
+                }
+            }
+            return false;
+        } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                await execution.appendOutput(new vscode.NotebookCellOutput([
+                    vscode.NotebookCellOutputItem.stderr('Execução interrompida (Ctrl+C)\n')
+                ]));
+                return false;
+            }
+
+            await execution.appendOutput(new vscode.NotebookCellOutput([vscode.NotebookCellOutputItem.error({
+                name: 'Erro',
+                message: error instanceof Error ? error.message : String(error)
+            })]));
+            return false;
+        }
+    }
+}
@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+
+/** Tipo de notebook registrado para arquivos .mpynb */
+export const MPYNB_NOTEBOOK_TYPE = 'micropython-notebook';
+
+/** Versão do formato gravado em disco */
+const MPYNB_VERSION = 1;
+
+interface MpynbCell {
+    kind: 'code' | 'markdown';
+    language?: string;
+    source: string;
+}
+
+interface MpynbFile {
+    version: number;
+    cells: MpynbCell[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isMpynbCell(value: unknown): value is MpynbCell {
+    return isRecord(value) && (value.kind === 'code' || value.kind === 'markdown') && typeof value.source === 'string' &&
+        (value.language === undefined || typeof value.language === 'string');
+}
+
+/**
+ * Confere o JSON lido do disco; `cells` ausente é um notebook vazio
+ */
+function parseMpynbFile(value: unknown): MpynbFile {
+    if (!isRecord(value)) {
+        throw new Error('Arquivo .mpynb inválido: o conteúdo não é um objeto JSON');
+    }
+    const cells = value.cells ?? [];
+    if (!Array.isArray(cells)) {
+        throw new Error('Arquivo .mpynb inválido: "cells" não é uma lista');
+    }
+    const invalid = cells.findIndex(cell => !isMpynbCell(cell));
+    if (invalid !== -1) {
+        throw new Error(`Arquivo .mpynb inválido: célula ${invalid + 1} sem "kind" ou "source" válidos`);
+    }
+    return { version: typeof value.version === 'number' ? value.version : MPYNB_VERSION, cells };
+}
+
+/**
+ * Formato de notebook leve para MicroPython (.mpynb)
+ *
+ * Problema: Um .ipynb carrega metadados de kernel Jupyter e saídas que não fazem sentido para a placa
+ * Solução: Guarda apenas o tipo, a linguagem e o código de cada célula em JSON legível
+ * Exemplo: `{ "version": 1, "cells": [{ "kind": "code", "source": "import machine" }] }`
+ */
+export class MpynbSerializer implements vscode.NotebookSerializer {
+    deserializeNotebook(content: Uint8Array): vscode.NotebookData {
+        const text = new TextDecoder().decode(content);
+        let file: MpynbFile = { version: MPYNB_VERSION, cells: [] };
+
+        if (text.trim()) {
+            let parsed: unknown;
+            try {
+                parsed = JSON.parse(text);
+            } catch (error) {
+                throw new Error(`Arquivo .mpynb inválido: ${error}`);
+            }
+            file = parseMpynbFile(parsed);
+        }
+
+        return new vscode.NotebookData(file.cells.map(cell => cell.kind === 'markdown'
+            ? new vscode.NotebookCellData(vscode.NotebookCellKind.Markup, cell.source, 'markdown')
+            : new vscode.NotebookCellData(vscode.NotebookCellKind.Code, cell.source, cell.language || 'python')
+        ));
+    }
+
+    serializeNotebook(data: vscode.NotebookData): Uint8Array {
+        const file: MpynbFile = {
+            version: MPYNB_VERSION,
+            cells: data.cells.map(cell => cell.kind === vscode.NotebookCellKind.Markup
+                ? { kind: 'markdown', source: cell.value }
+                : { kind: 'code', language: cell.languageId, source: cell.value })
+        };
+        return new TextEncoder().encode(JSON.stringify(file, null, 2) + '\n');
+    }
+}
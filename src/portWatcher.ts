@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import { SerialPort } from 'serialport';
+import { SerialPortInfo } from './types';
+
+/**
+ * Observa portas seriais conectadas e desconectadas (hotplug USB)
+ *
+ * Problema: Um cabo USB removido só aparecia como erro na porta, sem aviso quando voltava
+ * Solução: Compara periodicamente o resultado de `SerialPort.list()` com a leitura anterior
+ * Exemplo: Ao replugar a placa, `onDidAttach` dispara com o mesmo serialNumber (talvez em outra porta)
+ */
+export class PortWatcher implements vscode.Disposable {
+    private knownPorts: Map<string, SerialPortInfo> | undefined;
+    private timer: NodeJS.Timeout | undefined;
+    private scanning = false;
+
+    private _onDidAttach = new vscode.EventEmitter<SerialPortInfo>();
+    private _onDidDetach = new vscode.EventEmitter<SerialPortInfo>();
+
+    /** Porta que apareceu desde a última leitura */
+    readonly onDidAttach: vscode.Event<SerialPortInfo> = this._onDidAttach.event;
+    /** Porta que sumiu desde a última leitura */
+    readonly onDidDetach: vscode.Event<SerialPortInfo> = this._onDidDetach.event;
+
+    /**
+     * @param intervalMs Intervalo entre leituras da lista de portas
+     * @param listPorts Fonte da lista de portas (substituível para simulação)
+     */
+    constructor(
+        private intervalMs: number = 2000,
+        private listPorts: () => Promise<SerialPortInfo[]> = () => SerialPort.list()
+    ) {}
+
+    /**
+     * Portas vistas na última leitura
+     */
+    get ports(): SerialPortInfo[] {
+        return this.knownPorts ? Array.from(this.knownPorts.values()) : [];
+    }
+
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+        this.scan();
+        this.timer = setInterval(() => this.scan(), this.intervalMs);
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    dispose(): void {
+        this.stop();
+        this._onDidAttach.dispose();
+        this._onDidDetach.dispose();
+    }
+
+    /**
+     * Lê a lista atual e dispara eventos para as diferenças
+     */
+    private async scan(): Promise<void> {
+        if (this.scanning) {
+            return;
+        }
+        this.scanning = true;
+
+        try {
+            const ports = await this.listPorts();
+            const current = new Map(ports.map(port => [this.portKey(port), port]));
+            const previous = this.knownPorts;
+            this.knownPorts = current;
+
+            // A primeira leitura apenas registra o estado inicial
+            if (!previous) {
+                return;
+            }
+
+            previous.forEach((port, key) => {
+                if (!current.has(key)) {
+                    this._onDidDetach.fire(port);
+                }
+            });
+            current.forEach((port, key) => {
+                if (!previous.has(key)) {
+                    this._onDidAttach.fire(port);
+                }
+            });
+        } catch (error) {
+            console.log('Erro ao observar portas seriais:', error);
+        } finally {
+            this.scanning = false;
+        }
+    }
+
+    /**
+     * Outra placa no mesmo caminho conta como remoção seguida de conexão
+     */
+    private portKey(port: SerialPortInfo): string {
+        return `${port.path}|${port.serialNumber || ''}|${port.vendorId || ''}:${port.productId || ''}`;
+    }
+}
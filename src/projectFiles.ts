@@ -0,0 +1,65 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DeviceManager } from './deviceManager';
+import { ESP32Device } from './types';
+
+/** Pastas ignoradas ao procurar arquivos do projeto */
+const FILES_EXCLUDE = '**/{.git,.vscode,node_modules}/**';
+
+/**
+ * Arquivos locais que casam com os globs (relativos a `cwd`), sem repetição e em ordem
+ */
+export async function findProjectFiles(cwd: string, patterns: string[]): Promise<string[]> {
+    const files = new Set<string>();
+    for (const pattern of patterns) {
+        const uris = await vscode.workspace.findFiles(new vscode.RelativePattern(cwd, pattern), FILES_EXCLUDE);
+        uris.forEach(uri => files.add(uri.fsPath));
+    }
+    return [...files].sort();
+}
+
+/**
+ * Caminho no dispositivo de um arquivo do projeto: `cwd` corresponde a `remoteRoot`
+ *
+ * Exemplo: `toRemotePath('/proj', '/proj/lib/x.py')` → `/lib/x.py`
+ */
+export function toRemotePath(cwd: string, localPath: string, remoteRoot: string = '/'): string {
+    const relative = path.relative(cwd, localPath).split(path.sep).join('/');
+    return path.posix.join('/', remoteRoot, relative);
+}
+
+/**
+ * Dispositivo conectado indicado em launch.json/tasks.json
+ *
+ * `device` aceita ID, nome ou porta; sem ele, usa o único conectado ou pergunta ao usuário.
+ * Avisa e retorna `undefined` quando não há dispositivo adequado.
+ */
+export async function resolveConnectedDevice(
+    deviceManager: DeviceManager,
+    device: string | undefined,
+    placeHolder: string
+): Promise<ESP32Device | undefined> {
+    const devices = deviceManager.getConnectedDevices();
+    if (devices.length === 0) {
+        vscode.window.showErrorMessage('Nenhum dispositivo MicroPython conectado');
+        return undefined;
+    }
+
+    if (device) {
+        const match = devices.find(candidate => [candidate.id, candidate.name, candidate.port].includes(device));
+        if (!match) {
+            vscode.window.showErrorMessage(`Dispositivo "${device}" não está conectado`);
+        }
+        return match;
+    }
+
+    if (devices.length === 1) {
+        return devices[0];
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        devices.map(candidate => ({ label: candidate.name, description: candidate.port, device: candidate })),
+        { placeHolder }
+    );
+    return selected?.device;
+}
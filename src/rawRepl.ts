@@ -0,0 +1,457 @@
+import * as vscode from 'vscode';
+import { StringDecoder } from 'string_decoder';
+import { CommandResult, CommandOutputChunk } from './types';
+
+/** Banner enviado pelo MicroPython ao entrar no modo raw (Ctrl+A) */
+const RAW_REPL_BANNER = 'raw REPL; CTRL-B to exit\r\n>';
+
+/** Pedido de entrada no modo raw-paste (Ctrl+E, 'A', Ctrl+A) */
+const RAW_PASTE_REQUEST = '\x05A\x01';
+
+/** Tamanho dos blocos e pausa entre eles no modo raw convencional */
+const RAW_CHUNK_SIZE = 256;
+const RAW_CHUNK_DELAY_MS = 10;
+
+/** Tempo máximo para o dispositivo voltar ao prompt após uma interrupção (Ctrl+C) */
+const INTERRUPT_DRAIN_TIMEOUT_MS = 2000;
+
+interface PendingRead {
+    /** Retorna [bytes lidos, total consumido do buffer] quando a leitura pode ser satisfeita */
+    match: (buffer: Buffer) => [Buffer, number] | undefined;
+    /** Leitura contínua: consome bytes parciais enquanto `match` não é satisfeito */
+    consume?: (buffer: Buffer) => number;
+    /** Reinicia o timeout a cada chegada de dados (timeout por inatividade) */
+    restartTimer?: () => NodeJS.Timeout;
+    resolve: (data: Buffer) => void;
+    reject: (reason?: any) => void;
+    timer: NodeJS.Timeout;
+}
+
+/**
+ * Sessão de protocolo raw REPL sobre um fluxo de bytes
+ *
+ * Problema: Detectar fim de comando procurando ">>>" em linhas é frágil (o prompt não termina em newline)
+ * Solução: Usa o modo raw do MicroPython, cujas respostas têm framing explícito:
+ *          OK <stdout> \x04 <stderr> \x04 >
+ * Exemplo: `await session.exec('print(1+1)')` retorna `{ stdout: '2\r\n', stderr: '', exception: false }`
+ */
+export class RawReplSession {
+    private buffer: Buffer = Buffer.alloc(0);
+    private pending: PendingRead | undefined;
+    private rawMode = false;
+    private rawPasteSupported: boolean | undefined;
+    /** Motivo do cancelamento, entregue à próxima leitura se nenhuma estiver pendente */
+    private abortReason: Error | undefined;
+
+    /**
+     * @param write Escreve bytes no dispositivo
+     * @param passthrough Recebe os bytes que chegam fora do modo raw (REPL amigável)
+     */
+    constructor(
+        private write: (data: string | Buffer) => Promise<void>,
+        private passthrough: (data: Buffer) => void
+    ) {}
+
+    /**
+     * Indica se o dispositivo está atualmente no modo raw
+     */
+    get isRawMode(): boolean {
+        return this.rawMode;
+    }
+
+    /**
+     * Alimenta a sessão com bytes recebidos do dispositivo
+     */
+    feed(chunk: Buffer): void {
+        if (!this.rawMode && !this.pending) {
+            this.passthrough(chunk);
+            return;
+        }
+
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+        if (this.pending?.restartTimer) {
+            clearTimeout(this.pending.timer);
+            this.pending.timer = this.pending.restartTimer();
+        }
+        this.checkPending();
+    }
+
+    /**
+     * Entra no modo raw: interrompe o programa em execução e aguarda o banner
+     */
+    async enterRawMode(timeoutMs: number = 5000): Promise<void> {
+        if (this.rawMode) {
+            return;
+        }
+
+        // Ctrl+C duas vezes interrompe qualquer script ainda em execução
+        await this.write('\r\x03\x03');
+        await this.delay(100);
+        this.buffer = Buffer.alloc(0);
+
+        await this.write('\r\x01');
+        await this.readUntil(RAW_REPL_BANNER, timeoutMs);
+        this.rawMode = true;
+    }
+
+    /**
+     * Sai do modo raw e volta ao REPL amigável (Ctrl+B)
+     */
+    async exitRawMode(): Promise<void> {
+        if (!this.rawMode) {
+            return;
+        }
+
+        this.rawMode = false;
+        this.buffer = Buffer.alloc(0);
+        await this.write('\r\x02');
+    }
+
+    /**
+     * Escreve diretamente no REPL amigável, saindo do modo raw se necessário
+     */
+    async writeInput(data: string): Promise<void> {
+        await this.exitRawMode();
+        await this.write(data);
+    }
+
+    /**
+     * Executa código no modo raw e separa stdout de stderr
+     *
+     * O timeout vale para cada espera durante a transferência do código e,
+     * depois dela, como limite de inatividade: só expira se o dispositivo
+     * ficar `timeoutMs` sem enviar nada. Com `onOutput`, stdout e stderr são
+     * repassados à medida que chegam.
+     *
+     * Problema: Um `while True:` prendia a sessão (e a fila do dispositivo) até o timeout
+     * Solução: Ao cancelar o token, envia Ctrl+C, descarta a resposta até o prompt do modo raw
+     *          e rejeita com `vscode.CancellationError`
+     * Exemplo: Cancelar um laço infinito libera a sessão em poucos milissegundos
+     */
+    async exec(
+        code: string,
+        timeoutMs: number = 10000,
+        token?: vscode.CancellationToken,
+        onOutput?: (chunk: CommandOutputChunk) => void
+    ): Promise<CommandResult> {
+        if (token?.isCancellationRequested) {
+            throw new vscode.CancellationError();
+        }
+
+        this.abortReason = undefined;
+        const cancellation = token?.onCancellationRequested(() => this.abort(new vscode.CancellationError()));
+        let executing = false;
+
+        try {
+            await this.enterRawMode(timeoutMs);
+
+            // Descarta restos de respostas anteriores antes de enviar o código
+            this.buffer = Buffer.alloc(0);
+            await this.sendCode(Buffer.from(code, 'utf8'), timeoutMs);
+            executing = true;
+
+            const stdout = await this.readStream('\x04', timeoutMs, 'stdout', onOutput);
+            const stderr = await this.readStream('\x04>', timeoutMs, 'stderr', onOutput);
+
+            return {
+                stdout,
+                stderr,
+                exception: stderr.length > 0
+            };
+        } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                await this.interrupt(executing);
+            } else {
+                // Estado do dispositivo desconhecido: força nova entrada no modo raw no próximo comando
+                this.rawMode = false;
+            }
+            throw error;
+        } finally {
+            cancellation?.dispose();
+            this.abortReason = undefined;
+        }
+    }
+
+    /**
+     * Executa código sem deixar rastros no REPL amigável parado no prompt
+     *
+     * Problema: `enterRawMode` envia Ctrl+C (que aparece no terminal) e, ao voltar ao REPL,
+     *          o banner do MicroPython surgiria no meio da sessão do usuário
+     * Solução: Entra no modo raw só com Ctrl+A e, ao terminar, volta com Ctrl+B consumindo
+     *          o banner até o prompt, sem repassá-lo a `passthrough`
+     * Exemplo: Uma amostra de memória com o REPL aberto não altera o que o usuário vê
+     *
+     * Só deve ser usado com o REPL ocioso no prompt; no modo raw equivale a `exec`.
+     */
+    async execQuietly(code: string, timeoutMs: number = 10000, token?: vscode.CancellationToken): Promise<CommandResult> {
+        // Decidido antes de entrar no modo raw: `exec` zera `rawMode` em erros (ex.: timeout) para
+        // ressincronizar, mas a placa continua no raw REPL e precisa do Ctrl+B mesmo assim
+        const wasFriendly = !this.rawMode;
+        try {
+            if (wasFriendly) {
+                this.buffer = Buffer.alloc(0);
+                await this.write('\x01');
+                await this.readUntil(RAW_REPL_BANNER, timeoutMs);
+                this.rawMode = true;
+            }
+            return await this.exec(code, timeoutMs, token);
+        } finally {
+            if (wasFriendly) {
+                this.buffer = Buffer.alloc(0);
+                try {
+                    await this.write('\x02');
+                    await this.readUntil('>>> ', timeoutMs);
+                } catch (error) {
+                    console.log('Prompt do REPL não retornou após Ctrl+B:', error);
+                }
+                this.rawMode = false;
+                this.buffer = Buffer.alloc(0);
+            }
+        }
+    }
+
+    /**
+     * Interrompe o código em execução e descarta a saída até o prompt do modo raw
+     *
+     * Se o cancelamento ocorreu durante a transferência, ou o dispositivo não responder,
+     * a próxima entrada no modo raw ressincroniza a sessão.
+     */
+    private async interrupt(executing: boolean): Promise<void> {
+        this.abortReason = undefined;
+        try {
+            await this.write('\x03');
+            if (executing) {
+                await this.readUntil('\x04>', INTERRUPT_DRAIN_TIMEOUT_MS);
+                this.buffer = Buffer.alloc(0);
+                return;
+            }
+        } catch (error) {
+            console.log('Dispositivo não respondeu à interrupção:', error);
+        }
+        this.rawMode = false;
+    }
+
+    /**
+     * Rejeita a leitura pendente, ou a próxima, com o motivo informado
+     */
+    private abort(reason: Error): void {
+        if (this.pending) {
+            clearTimeout(this.pending.timer);
+            this.pending.reject(reason);
+            this.pending = undefined;
+        } else {
+            this.abortReason = reason;
+        }
+    }
+
+    /**
+     * Transfere o código, preferindo o modo raw-paste quando o firmware suporta
+     *
+     * Problema: Scripts grandes escritos de uma vez estouram o buffer da UART do ESP32
+     * Solução: No raw-paste o dispositivo informa uma janela e libera mais bytes com \x01;
+     *          firmwares antigos recebem blocos de 256 bytes com pausas no modo raw convencional
+     * Exemplo: Um script de 100 KB é enviado em janelas de 128 bytes sem perda de dados
+     */
+    private async sendCode(code: Buffer, timeoutMs: number): Promise<void> {
+        if (this.rawPasteSupported !== false) {
+            await this.write(RAW_PASTE_REQUEST);
+            const response = (await this.readBytes(2, timeoutMs)).toString('latin1');
+
+            if (response === 'R\x01') {
+                this.rawPasteSupported = true;
+                await this.rawPasteWrite(code, timeoutMs);
+                return;
+            }
+
+            if (response !== 'R\x00') {
+                // Firmware sem raw-paste ignora o pedido e reimprime o banner do modo raw
+                await this.readUntil(RAW_REPL_BANNER.substring(2), timeoutMs);
+            }
+
+            // Não tentar raw-paste novamente nesta conexão
+            this.rawPasteSupported = false;
+        }
+
+        for (let offset = 0; offset < code.length; offset += RAW_CHUNK_SIZE) {
+            await this.write(code.subarray(offset, offset + RAW_CHUNK_SIZE));
+            await this.delay(RAW_CHUNK_DELAY_MS);
+        }
+        await this.write('\x04');
+
+        const ack = await this.readBytes(2, timeoutMs);
+        if (ack.toString() !== 'OK') {
+            throw new Error(`Resposta inesperada do raw REPL: ${JSON.stringify(ack.toString())}`);
+        }
+    }
+
+    /**
+     * Escreve o código respeitando a janela de controle de fluxo do raw-paste
+     */
+    private async rawPasteWrite(code: Buffer, timeoutMs: number): Promise<void> {
+        const windowSize = (await this.readBytes(2, timeoutMs)).readUInt16LE(0);
+        let windowRemain = windowSize;
+        let offset = 0;
+
+        while (offset < code.length) {
+            // Processa bytes de controle pendentes ou aguarda liberação da janela
+            while (windowRemain === 0 || this.buffer.length > 0) {
+                const control = (await this.readBytes(1, timeoutMs))[0];
+                if (control === 0x01) {
+                    windowRemain += windowSize;
+                } else if (control === 0x04) {
+                    // Dispositivo encerrou a transferência antecipadamente
+                    await this.write('\x04');
+                    return;
+                } else {
+                    throw new Error(`Byte inesperado durante raw-paste: 0x${control.toString(16)}`);
+                }
+            }
+
+            const chunk = code.subarray(offset, offset + windowRemain);
+            await this.write(chunk);
+            windowRemain -= chunk.length;
+            offset += chunk.length;
+        }
+
+        // Indica fim dos dados e aguarda a confirmação do dispositivo
+        await this.write('\x04');
+        await this.readUntil('\x04', timeoutMs);
+    }
+
+    /**
+     * Cancela leituras pendentes (ex.: ao desconectar)
+     */
+    dispose(): void {
+        this.abort(new Error('Sessão encerrada'));
+        this.abortReason = undefined;
+        this.buffer = Buffer.alloc(0);
+        this.rawMode = false;
+    }
+
+    /**
+     * Aguarda até que o marcador apareça no fluxo e retorna os bytes anteriores a ele
+     */
+    private readUntil(marker: string, timeoutMs: number): Promise<Buffer> {
+        const markerBytes = Buffer.from(marker);
+        return this.read(buffer => {
+            const index = buffer.indexOf(markerBytes);
+            return index === -1 ? undefined : [buffer.subarray(0, index), index + markerBytes.length];
+        }, timeoutMs, `Timeout aguardando resposta do dispositivo (${JSON.stringify(marker)})`);
+    }
+
+    /**
+     * Lê até o marcador repassando o texto recebido aos poucos
+     *
+     * Os últimos bytes do buffer ficam retidos enquanto puderem ser o início do
+     * marcador, e o decodificador segura caracteres UTF-8 incompletos.
+     */
+    private async readStream(
+        marker: string,
+        idleTimeoutMs: number,
+        stream: CommandOutputChunk['stream'],
+        onOutput?: (chunk: CommandOutputChunk) => void
+    ): Promise<string> {
+        const markerBytes = Buffer.from(marker);
+        const decoder = new StringDecoder('utf8');
+        let text = '';
+        const emit = (data: Buffer) => {
+            const decoded = decoder.write(data);
+            if (decoded) {
+                text += decoded;
+                onOutput?.({ stream, text: decoded });
+            }
+        };
+
+        const rest = await this.read(buffer => {
+            const index = buffer.indexOf(markerBytes);
+            return index === -1 ? undefined : [buffer.subarray(0, index), index + markerBytes.length];
+        }, idleTimeoutMs, `Timeout aguardando resposta do dispositivo (${JSON.stringify(marker)})`, {
+            consume: buffer => {
+                const safe = Math.max(buffer.length - (markerBytes.length - 1), 0);
+                if (safe > 0) {
+                    emit(Buffer.from(buffer.subarray(0, safe)));
+                }
+                return safe;
+            },
+            idle: true
+        });
+
+        emit(Buffer.from(rest));
+        const tail = decoder.end();
+        if (tail) {
+            text += tail;
+            onOutput?.({ stream, text: tail });
+        }
+        return text;
+    }
+
+    /**
+     * Lê exatamente `count` bytes do fluxo
+     */
+    private readBytes(count: number, timeoutMs: number): Promise<Buffer> {
+        return this.read(buffer => {
+            return buffer.length < count ? undefined : [buffer.subarray(0, count), count];
+        }, timeoutMs, 'Timeout aguardando resposta do dispositivo');
+    }
+
+    private read(
+        match: PendingRead['match'],
+        timeoutMs: number,
+        timeoutMessage: string,
+        options: { consume?: PendingRead['consume'], idle?: boolean } = {}
+    ): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            if (this.pending) {
+                reject(new Error('Leitura concorrente na sessão raw REPL'));
+                return;
+            }
+            if (this.abortReason) {
+                reject(this.abortReason);
+                this.abortReason = undefined;
+                return;
+            }
+
+            const startTimer = () => setTimeout(() => {
+                this.pending = undefined;
+                reject(new Error(timeoutMessage));
+            }, timeoutMs);
+
+            this.pending = {
+                match,
+                consume: options.consume,
+                restartTimer: options.idle ? startTimer : undefined,
+                resolve,
+                reject,
+                timer: startTimer()
+            };
+            this.checkPending();
+        });
+    }
+
+    private checkPending(): void {
+        if (!this.pending) {
+            return;
+        }
+
+        const result = this.pending.match(this.buffer);
+        if (!result) {
+            const consumed = this.pending.consume?.(this.buffer) ?? 0;
+            if (consumed > 0) {
+                this.buffer = this.buffer.subarray(consumed);
+            }
+            return;
+        }
+
+        const [data, consumed] = result;
+        this.buffer = this.buffer.subarray(consumed);
+
+        const { resolve, timer } = this.pending;
+        clearTimeout(timer);
+        this.pending = undefined;
+        resolve(data);
+    }
+
+    private delay(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+}
@@ -1,6 +1,21 @@
 import * as vscode from 'vscode';
-import { ESP32Device } from './types';
+import * as path from 'path';
+import { ESP32Device, CommandResult, CommandOutputChunk } from './types';
 import { DeviceManager } from './deviceManager';
+import { DeviceDiagnostics, ExecutedSource } from './deviceDiagnostics';
+import { DeviceError } from './deviceError';
+
+/**
+ * Opções de `REPLManager.executeScript`
+ */
+export interface ScriptExecutionOptions {
+    /** Cancelar interrompe o script com Ctrl+C */
+    token?: vscode.CancellationToken;
+    /** Recebe stdout/stderr ao vivo, além do canal de saída */
+    onOutput?: (chunk: CommandOutputChunk) => void;
+    /** Timeout de inatividade; padrão `commandTimeout` */
+    timeoutMs?: number;
+}
 
 /**
  * Gerenciador de REPL (Read-Eval-Print Loop) para MicroPython
@@ -12,7 +27,10 @@ import { DeviceManager } from './deviceManager';
 export class REPLManager {
     private activeREPLs: Map<string, vscode.Terminal> = new Map();
     
-    constructor(private deviceManager: DeviceManager) {}
+    /**
+     * @param diagnostics Recebe os tracebacks dos scripts executados (sublinhados no editor)
+     */
+    constructor(private deviceManager: DeviceManager, private diagnostics?: DeviceDiagnostics) {}
 
     /**
      * Abre REPL para um dispositivo específico
@@ -44,7 +62,7 @@ export class REPLManager {
             try {
                 // Validação completa do ambiente MicroPython
                 progress.report({ increment: 20, message: 'Executando validação completa...' });
-                const validation = await this.validateMicroPythonEnvironment(deviceId);
+                const validation = await this.validateMicroPythonEnvironment(deviceId, token);
                 
                 if (token.isCancellationRequested) {
                     return;
@@ -69,7 +87,7 @@ export class REPLManager {
                 progress.report({ increment: 60, message: 'Testando comandos básicos...' });
                 
                 // Validação adicional de responsividade
-                const isResponsive = await this.testBasicCommands(deviceId);
+                const isResponsive = await this.testBasicCommands(deviceId, token);
                 
                 if (token.isCancellationRequested) {
                     return;
@@ -85,7 +103,7 @@ export class REPLManager {
                 progress.report({ increment: 80, message: 'Preparando terminal...' });
 
                 // Preparar dispositivo para REPL interativo
-                await this.prepareDeviceForREPL(deviceId);
+                await this.prepareDeviceForREPL(deviceId, token);
 
                 if (token.isCancellationRequested) {
                     return;
@@ -112,6 +130,9 @@ export class REPLManager {
                 vscode.window.showInformationMessage(`REPL MicroPython validado e aberto para ${device.name}`);
 
             } catch (error) {
+                if (error instanceof vscode.CancellationError) {
+                    return;
+                }
                 vscode.window.showErrorMessage(`Erro ao validar/abrir REPL: ${error}`);
             }
         });
@@ -160,22 +181,67 @@ export class REPLManager {
             const document = await vscode.workspace.openTextDocument(filePath);
             const scriptContent = document.getText();
 
-            // Executar script
-            await this.executeScript(deviceId, scriptContent, filePath);
+            // Executar script; cancelar interrompe o código na placa (Ctrl+C)
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Executando ${path.basename(filePath)} em ${device.name}...`,
+                cancellable: true
+            }, (_progress, token) => this.executeScript(deviceId, scriptContent, filePath, { path: filePath }, { token }));
 
         } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                return;
+            }
             vscode.window.showErrorMessage(`Erro ao executar script: ${error}`);
         }
     }
 
+    /**
+     * Executa um trecho do editor (seleção, linha ou célula) no dispositivo
+     *
+     * Problema: Testar uma função exigia enviar o arquivo inteiro a cada alteração
+     * Solução: Envia só o trecho pelo raw REPL, cujas variáveis globais persistem entre
+     *          execuções até um soft reset; `source` mantém as linhas dos tracebacks
+     * Exemplo: Executar a célula `# %% setup` e depois `# %% loop` reaproveita os objetos criados
+     */
+    async runCode(deviceId: string, code: string, label: string, source: ExecutedSource): Promise<void> {
+        const device = this.deviceManager.getDevice(deviceId);
+        if (!device || !device.isConnected) {
+            vscode.window.showErrorMessage('Dispositivo não conectado');
+            return;
+        }
+
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Executando ${label} em ${device.name}...`,
+                cancellable: true
+            }, (_progress, token) => this.executeScript(deviceId, code, label, source, { token }));
+        } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                return;
+            }
+            vscode.window.showErrorMessage(`Erro ao executar ${label}: ${error}`);
+        }
+    }
+
     /**
      * Executa conteúdo de script no dispositivo
      * 
      * Problema: MicroPython precisa receber código de forma controlada
-     * Solução: Envia script usando modo paste do MicroPython (Ctrl+E)
-     * Exemplo: Usa comandos especiais para enviar código multi-linha com segurança
+     * Solução: Envia script pelo raw REPL, que devolve stdout e stderr separados, e mostra a saída ao vivo
+     * Exemplo: Um traceback do script aparece destacado como erro no canal de saída
+     *
+     * `options.onOutput` também recebe a saída (ex.: Debug Console) e `options.timeoutMs`
+     * substitui o timeout de inatividade configurado.
      */
-    private async executeScript(deviceId: string, scriptContent: string, fileName: string): Promise<void> {
+    async executeScript(
+        deviceId: string,
+        scriptContent: string,
+        fileName: string,
+        source: ExecutedSource | undefined,
+        options: ScriptExecutionOptions = {}
+    ): Promise<CommandResult> {
         const outputChannel = this.deviceManager.getOutputChannel(deviceId);
         if (!outputChannel) {
             throw new Error('Canal de saída não encontrado');
@@ -185,21 +251,32 @@ export class REPLManager {
         outputChannel.appendLine(`\n=== Executando ${fileName} ===`);
 
         try {
-            // Entrar no modo "raw" para execução de script (Ctrl+A)
-            await this.deviceManager.executeCommand(deviceId, '\x01');
-
-            // Enviar o script para execução
-            await this.deviceManager.executeCommand(deviceId, scriptContent);
-
-            // Ctrl+D faz um soft reset, que executa o código e retorna ao REPL
-            await this.deviceManager.executeCommand(deviceId, '\x04'); 
+            // Saída exibida à medida que o script imprime
+            const result = await this.deviceManager.executeCommand(
+                deviceId, scriptContent, options.timeoutMs, options.token, chunk => {
+                    outputChannel.append(chunk.text);
+                    options.onOutput?.(chunk);
+                }
+            );
 
-            outputChannel.appendLine('=== Script enviado para execução. A saída aparecerá abaixo. ===\n');
+            if (result.exception) {
+                outputChannel.appendLine(`=== Script terminou com exceção ===\n`);
+                const error = DeviceError.parse(result.stderr);
+                if (error) {
+                    this.diagnostics?.publish(deviceId, error, source);
+                }
+            } else {
+                outputChannel.appendLine('=== Execução concluída ===\n');
+                this.diagnostics?.clear(deviceId);
+            }
+            return result;
 
         } catch (error) {
-            outputChannel.appendLine(`=== Erro na execução: ${error} ===\n`);
-            // Garante que saia do modo raw em caso de erro
-            await this.deviceManager.executeCommand(deviceId, '\x02');
+            if (error instanceof vscode.CancellationError) {
+                outputChannel.appendLine('=== Execução interrompida pelo usuário ===\n');
+            } else {
+                outputChannel.appendLine(`=== Erro na execução: ${error} ===\n`);
+            }
             throw error;
         }
     }
@@ -239,11 +316,11 @@ export class REPLManager {
             const initialActivity = device.lastActivity;
             
             // Teste 1: Interromper execução atual e acordar REPL
-            await this.deviceManager.executeCommand(deviceId, '\x03'); // Ctrl+C
+            await this.deviceManager.sendInput(deviceId, '\x03'); // Ctrl+C
             await this.sleep(300);
             
             // Teste 2: Enviar comando simples que deve retornar resposta
-            await this.deviceManager.executeCommand(deviceId, '\r\n');
+            await this.deviceManager.sendInput(deviceId, '\r\n');
             await this.sleep(200);
             
             // Verificar se houve atividade recente (indicando resposta)
@@ -261,7 +338,7 @@ export class REPLManager {
             }
 
             // Teste 3: Comando Python específico para confirmar MicroPython
-            await this.deviceManager.executeCommand(deviceId, 'print("MP_VALIDATE")\r\n');
+            await this.deviceManager.executeCommand(deviceId, 'print("MP_VALIDATE")');
             await this.sleep(400);
             
             // Verificar nova atividade após comando Python
@@ -286,23 +363,26 @@ export class REPLManager {
      * Solução: Executa sequência de comandos Python e verifica responsividade
      * Exemplo: Testa import, print e sys para garantir funcionalidade completa
      */
-    private async testBasicCommands(deviceId: string): Promise<boolean> {
+    private async testBasicCommands(deviceId: string, token?: vscode.CancellationToken): Promise<boolean> {
         try {
             // Teste 1: Print simples
-            const printOutput = await this.deviceManager.executeCommand(deviceId, 'print(123)');
-            if (!printOutput.includes('123')) return false;
+            const printResult = await this.deviceManager.executeCommand(deviceId, 'print(123)', undefined, token);
+            if (!printResult.stdout.includes('123')) return false;
 
             // Teste 2: Import básico
-            const importOutput = await this.deviceManager.executeCommand(deviceId, 'import gc');
-            if (importOutput.toLowerCase().includes('error')) return false;
+            const importResult = await this.deviceManager.executeCommand(deviceId, 'import gc', undefined, token);
+            if (importResult.exception) return false;
 
             // Teste 3: Comando com resposta esperada
-            const testOkOutput = await this.deviceManager.executeCommand(deviceId, 'print("TEST_OK")');
-            if (!testOkOutput.includes('TEST_OK')) return false;
+            const testOkResult = await this.deviceManager.executeCommand(deviceId, 'print("TEST_OK")', undefined, token);
+            if (!testOkResult.stdout.includes('TEST_OK')) return false;
 
             return true;
             
         } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                throw error;
+            }
             console.error('Erro no teste de comandos básicos:', error);
             return false;
         }
@@ -315,15 +395,18 @@ export class REPLManager {
      * Solução: Limpa buffer, interrompe execuções e prepara prompt limpo
      * Exemplo: Garante que prompt ">>>" esteja disponível e responsivo
      */
-    private async prepareDeviceForREPL(deviceId: string): Promise<void> {
+    private async prepareDeviceForREPL(deviceId: string, token?: vscode.CancellationToken): Promise<void> {
         try {
             // Interromper qualquer execução em andamento (Ctrl+C)
-            await this.deviceManager.executeCommand(deviceId, '\x03');
+            await this.deviceManager.sendInput(deviceId, '\x03', token);
             
             // Limpar buffer e garantir que estamos no prompt (Enter)
-            await this.deviceManager.executeCommand(deviceId, ''); // Envia um enter vazio
+            await this.deviceManager.sendInput(deviceId, '\r\n', token);
             
         } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                throw error;
+            }
             console.error('Erro ao preparar dispositivo para REPL:', error);
             throw new Error('Falha ao preparar dispositivo para REPL');
         }
@@ -333,13 +416,13 @@ export class REPLManager {
      * Captura resposta do dispositivo para um comando específico.
      * 
      * Problema: Necessário aguardar e capturar resposta específica do dispositivo.
-     * Solução: Usa a promise retornada pelo novo `executeCommand`, que já captura a saída até o próximo prompt.
-     * Exemplo: `const output = await captureDeviceResponse(id, 'print(1+1)')` captura "2".
+     * Solução: Usa o `executeCommand`, que delimita stdout e stderr pelo protocolo raw REPL.
+     * Exemplo: `const result = await captureDeviceResponse(id, 'print(1+1)')` captura "2" em `result.stdout`.
      */
-    private async captureDeviceResponse(deviceId: string, command: string): Promise<string> {
+    private async captureDeviceResponse(deviceId: string, command: string, token?: vscode.CancellationToken): Promise<CommandResult> {
         // Com a nova implementação do DeviceManager, basta chamar o executeCommand.
         // O timeout já é gerenciado dentro do processador da fila de comandos.
-        return this.deviceManager.executeCommand(deviceId, command);
+        return this.deviceManager.executeCommand(deviceId, command, undefined, token);
     }
 
     /**
@@ -349,38 +432,43 @@ export class REPLManager {
      * Solução: Bateria completa de testes para garantir funcionalidade plena
      * Exemplo: Testa REPL, imports, memória e comandos específicos do ESP32
      */
-    private async validateMicroPythonEnvironment(deviceId: string): Promise<{isValid: boolean, issues: string[]}> {
+    private async validateMicroPythonEnvironment(deviceId: string, token?: vscode.CancellationToken): Promise<{isValid: boolean, issues: string[]}> {
         const issues: string[] = [];
         
         try {
-            // Validação 1: Responsividade básica (envia um enter e espera o prompt)
-            const enterOutput = await this.captureDeviceResponse(deviceId, '');
-            if (!enterOutput.includes('>>>')) {
-                issues.push('Dispositivo não responde com o prompt ">>>" do REPL.');
+            // Validação 1: Responsividade básica (comando nulo no raw REPL;
+            // código vazio seguido de Ctrl+D faria soft reset no modo raw convencional)
+            try {
+                await this.captureDeviceResponse(deviceId, 'pass', token);
+            } catch (error) {
+                if (error instanceof vscode.CancellationError) {
+                    throw error;
+                }
+                issues.push('Dispositivo não responde ao protocolo raw REPL.');
                 return { isValid: false, issues };
             }
 
             // Validação 2: Capacidade Python básica
-            const mathOutput = await this.captureDeviceResponse(deviceId, 'print(1+1)');
-            if (!mathOutput.includes('2')) {
+            const mathResult = await this.captureDeviceResponse(deviceId, 'print(1+1)', token);
+            if (mathResult.stdout.trim() !== '2') {
                 issues.push('Interpretador Python não processa comandos matemáticos.');
             }
 
             // Validação 3: Capacidade de import
-            const importOutput = await this.captureDeviceResponse(deviceId, 'import sys');
-            if (importOutput.toLowerCase().includes('error')) {
+            const importResult = await this.captureDeviceResponse(deviceId, 'import sys', token);
+            if (importResult.exception) {
                 issues.push('Sistema de imports do Python não está funcionando.');
             }
 
             // Validação 4: Específica do MicroPython
-            const mpOutput = await this.captureDeviceResponse(deviceId, 'import micropython');
-            if (mpOutput.toLowerCase().includes('error')) {
+            const mpResult = await this.captureDeviceResponse(deviceId, 'import micropython', token);
+            if (mpResult.exception) {
                 issues.push('Módulo "micropython" não disponível.');
             }
 
             // Validação 5: Comandos específicos do ESP32
-            const machineOutput = await this.captureDeviceResponse(deviceId, 'import machine');
-            if (machineOutput.toLowerCase().includes('error')) {
+            const machineResult = await this.captureDeviceResponse(deviceId, 'import machine', token);
+            if (machineResult.exception) {
                 issues.push('Módulo "machine" não disponível.');
             }
 
@@ -392,6 +480,9 @@ export class REPLManager {
             return {isValid, issues};
 
         } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                throw error;
+            }
             issues.push(`Erro fatal durante validação: ${error}`);
             return {isValid: false, issues};
         }
@@ -408,7 +499,8 @@ export class REPLManager {
 class MicroPythonPseudoTerminal implements vscode.Pseudoterminal {
     private writeEmitter = new vscode.EventEmitter<string>();
     private closeEmitter = new vscode.EventEmitter<number>();
-    private dataListener: ((data: string) => void) | null = null;
+    private dataListener: vscode.Disposable | null = null;
+    private disconnectListener: vscode.Disposable | null = null;
     private inputBuffer: string = '';
     private isInitialized: boolean = false;
     
@@ -437,18 +529,19 @@ class MicroPythonPseudoTerminal implements vscode.Pseudoterminal {
     close(): void {
         // Remover listener quando terminal fechar
         if (this.dataListener) {
-            const parser = this.deviceManager.getParser(this.device.id);
-            if (parser) {
-                parser.off('data', this.dataListener);
-            }
+            this.dataListener.dispose();
             this.dataListener = null;
         }
+        if (this.disconnectListener) {
+            this.disconnectListener.dispose();
+            this.disconnectListener = null;
+        }
         this.closeEmitter.fire(0);
     }
 
     handleInput(data: string): void {
-        // Simplesmente envia os dados do terminal para a fila de comandos do dispositivo.
-        // A fila garante que tudo será processado em ordem.
+        // Envia as teclas ao REPL amigável através da fila de comandos do dispositivo.
+        // A fila garante que nada seja intercalado com comandos do raw REPL.
         this.sendCommand(data);
     }
 
@@ -460,19 +553,22 @@ class MicroPythonPseudoTerminal implements vscode.Pseudoterminal {
      * Configura listener para capturar dados do dispositivo
      */
     private setupDataListener(): void {
-        const parser = this.deviceManager.getParser(this.device.id);
-        if (!parser) {
-            this.writeEmitter.fire('\x1b[31mErro: Parser não encontrado\x1b[0m\r\n');
-            return;
-        }
-
-        this.dataListener = (data: string) => {
-            // Repassa os dados brutos do dispositivo para o terminal do VS Code,
-            // substituindo newlines para a formatação correta do terminal.
-            this.writeEmitter.fire(data.replace(/\n/g, '\r\n'));
-        };
+        try {
+            this.dataListener = this.deviceManager.onReplData(this.device.id, (data: string) => {
+                // Repassa os bytes do REPL amigável sem quebrar em linhas,
+                // para que o prompt ">>> " (sem newline) também apareça.
+                this.writeEmitter.fire(data);
+            });
 
-        parser.on('data', this.dataListener);
+            // Avisar no terminal quando o dispositivo cair
+            this.disconnectListener = this.deviceManager.onDidDisconnect(device => {
+                if (device.id === this.device.id) {
+                    this.writeEmitter.fire('\r\n\x1b[31m=== Dispositivo desconectado ===\x1b[0m\r\n');
+                }
+            });
+        } catch (error) {
+            this.writeEmitter.fire(`\x1b[31mErro: ${error}\x1b[0m\r\n`);
+        }
     }
 
     /**
@@ -509,13 +605,11 @@ class MicroPythonPseudoTerminal implements vscode.Pseudoterminal {
      * Envia comando para o dispositivo
      */
     private async sendCommand(command: string): Promise<void> {
-        try {
-            // Não precisamos do retorno aqui, pois o listener de dados já exibe a saída.
-            // Apenas enviamos o comando para a fila.
-            this.deviceManager.executeCommand(this.device.id, command);
-        } catch (error) {
+        // Não precisamos do retorno aqui, pois o listener de dados já exibe a saída.
+        // Apenas enviamos a entrada para a fila.
+        await this.deviceManager.sendInput(this.device.id, command).catch((error) => {
             this.writeEmitter.fire(`\r\n\x1b[31mErro de comunicação: ${error}\x1b[0m\r\n`);
-        }
+        });
     }
 
     /**
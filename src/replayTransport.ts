@@ -0,0 +1,336 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Transport, TransportSignals } from './transport';
+import { TrafficDirection } from './types';
+
+/** Identificação da primeira linha de uma gravação */
+const RECORDING_FORMAT = 'micropython-session';
+const RECORDING_VERSION = 1;
+
+/**
+ * Linha de uma gravação (JSON Lines): bytes em um sentido, sinais de controle ou abertura/fechamento
+ *
+ * `time` é o horário do host em ms; `data` são os bytes em base64.
+ */
+export type RecordedEntry =
+    | { time: number, dir: TrafficDirection, data: string }
+    | { time: number, signals: TransportSignals }
+    | { time: number, event: 'open' | 'close' };
+
+/**
+ * Cabeçalho da gravação, gravado uma vez no início do arquivo
+ */
+export interface RecordingHeader {
+    format: typeof RECORDING_FORMAT;
+    version: number;
+    address: string;
+    recordedAt: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isRecordingHeader(value: unknown): value is RecordingHeader {
+    return isRecord(value) && value.format === RECORDING_FORMAT && typeof value.version === 'number' &&
+        typeof value.address === 'string' && typeof value.recordedAt === 'string';
+}
+
+function isRecordedEntry(value: unknown): value is RecordedEntry {
+    if (!isRecord(value) || typeof value.time !== 'number') {
+        return false;
+    }
+    if ('dir' in value) {
+        return (value.dir === 'TX' || value.dir === 'RX') && typeof value.data === 'string';
+    }
+    if ('signals' in value) {
+        return isRecord(value.signals);
+    }
+    return value.event === 'open' || value.event === 'close';
+}
+
+/**
+ * Lê uma gravação feita por `RecordingTransport`
+ *
+ * Linhas com formato inesperado (arquivo editado à mão ou de outra ferramenta) são um erro.
+ */
+export async function readRecording(filePath: string): Promise<{ header?: RecordingHeader, entries: RecordedEntry[] }> {
+    const text = await fs.promises.readFile(filePath, 'utf8');
+    const lines = text.split('\n').filter(line => line.trim());
+
+    let header: RecordingHeader | undefined;
+    const entries: RecordedEntry[] = [];
+    lines.forEach((line, index) => {
+        let value: unknown;
+        try {
+            value = JSON.parse(line);
+        } catch {
+            // Última linha cortada (extensão encerrada no meio da gravação) é ignorada
+            if (index === lines.length - 1) {
+                return;
+            }
+            throw new Error(`Gravação inválida (linha ${index + 1}): ${path.basename(filePath)}`);
+        }
+
+        if (isRecordingHeader(value)) {
+            header = value;
+        } else if (isRecordedEntry(value)) {
+            entries.push(value);
+        } else {
+            throw new Error(`Gravação inválida (linha ${index + 1}, formato inesperado): ${path.basename(filePath)}`);
+        }
+    });
+
+    if (header && header.version > RECORDING_VERSION) {
+        throw new Error(`Gravação na versão ${header.version}, mais nova que a suportada (${RECORDING_VERSION})`);
+    }
+    return { header, entries };
+}
+
+/**
+ * Transporte que grava em disco todo o tráfego de outro transporte
+ *
+ * Problema: Falhas de protocolo vistas em uma placa não podiam ser reproduzidas sem o hardware
+ * Solução: Envolve o transporte real e acrescenta cada bloco TX/RX (e os sinais DTR/RTS), com o
+ *          horário, a um arquivo JSON Lines; reconexões continuam no mesmo arquivo
+ * Exemplo: `connectDevice('/dev/ttyUSB0', undefined, { recordPath: 'falha.mpsession' })`
+ *
+ * A transferência nativa do WebREPL (`putFile`/`getFile`) não é exposta: durante a gravação os
+ * arquivos passam pelo raw REPL, para que apareçam no tráfego gravado.
+ */
+export class RecordingTransport implements Transport {
+    private stream: fs.WriteStream | undefined;
+    private subscription: vscode.Disposable | undefined;
+
+    constructor(private inner: Transport, private filePath: string) {}
+
+    get description(): string {
+        return this.inner.description;
+    }
+
+    get deviceName(): string | undefined {
+        return this.inner.deviceName;
+    }
+
+    get isOpen(): boolean {
+        return this.inner.isOpen;
+    }
+
+    get hasControlLines(): boolean | undefined {
+        return this.inner.hasControlLines;
+    }
+
+    get onData(): vscode.Event<Buffer> {
+        return this.inner.onData;
+    }
+
+    get onError(): vscode.Event<Error> {
+        return this.inner.onError;
+    }
+
+    async open(): Promise<void> {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        const isNew = await fs.promises.stat(this.filePath).then(stat => stat.size === 0, () => true);
+        this.stream = fs.createWriteStream(this.filePath, { flags: 'a' });
+        if (isNew) {
+            const header: RecordingHeader = {
+                format: RECORDING_FORMAT,
+                version: RECORDING_VERSION,
+                address: this.inner.description,
+                recordedAt: new Date().toISOString()
+            };
+            this.stream.write(JSON.stringify(header) + '\n');
+        }
+
+        // O banner pode chegar antes de `open` retornar: a gravação começa antes de abrir
+        this.record({ time: Date.now(), event: 'open' });
+        this.subscription = this.inner.onData(chunk => this.record({ time: Date.now(), dir: 'RX', data: chunk.toString('base64') }));
+        try {
+            await this.inner.open();
+        } catch (error) {
+            this.finish();
+            throw error;
+        }
+    }
+
+    async write(data: string | Buffer): Promise<void> {
+        const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data, 'utf8');
+        this.record({ time: Date.now(), dir: 'TX', data: buffer.toString('base64') });
+        await this.inner.write(data);
+    }
+
+    async close(): Promise<void> {
+        try {
+            await this.inner.close();
+        } finally {
+            this.finish();
+        }
+    }
+
+    async setSignals(signals: TransportSignals): Promise<void> {
+        this.record({ time: Date.now(), signals });
+        await this.inner.setSignals(signals);
+    }
+
+    private record(entry: RecordedEntry): void {
+        this.stream?.write(JSON.stringify(entry) + '\n');
+    }
+
+    private finish(): void {
+        this.subscription?.dispose();
+        this.subscription = undefined;
+        this.record({ time: Date.now(), event: 'close' });
+        this.stream?.end();
+        this.stream = undefined;
+    }
+}
+
+/**
+ * Dispositivo simulado que reproduz uma gravação (`replay://<arquivo>`)
+ *
+ * Problema: Bugs de parsing (listagem, download, fila de comandos) dependiam de uma placa
+ *           específica e de um momento específico para aparecer
+ * Solução: Reproduz os blocos RX gravados, mas só libera cada trecho depois que a extensão
+ *          envia os mesmos bytes TX que o precederam, mantendo os atrasos originais em relação
+ *          a esse envio; bytes diferentes do gravado encerram a reprodução com erro
+ * Exemplo: `connectDevice('replay:///tmp/falha.mpsession')` seguido de `getFileStructure`
+ *          devolve ao parser exatamente os bytes da sessão que falhou
+ *
+ * Apenas a primeira conexão da gravação é reproduzida; reconexões gravadas são ignoradas.
+ */
+export class ReplayTransport implements Transport {
+    private dataEmitter = new vscode.EventEmitter<Buffer>();
+    private errorEmitter = new vscode.EventEmitter<Error>();
+    private entries: RecordedEntry[] = [];
+    private cursor = 0;
+    // Bytes já conferidos do bloco TX esperado em `entries[cursor]`
+    private matchedBytes = 0;
+    private timers: Set<NodeJS.Timeout> = new Set();
+    private opened = false;
+    private name: string | undefined;
+
+    readonly onData = this.dataEmitter.event;
+    readonly onError = this.errorEmitter.event;
+    // Um reset por hardware gravado é reproduzido como os demais sinais
+    readonly hasControlLines = true;
+
+    constructor(private filePath: string) {}
+
+    get description(): string {
+        return `replay://${this.filePath}`;
+    }
+
+    get deviceName(): string | undefined {
+        return this.name;
+    }
+
+    get isOpen(): boolean {
+        return this.opened;
+    }
+
+    async open(): Promise<void> {
+        const { header, entries } = await readRecording(this.filePath);
+
+        // Primeira conexão gravada: do primeiro "open" até o "close" seguinte
+        const start = entries.findIndex(entry => 'event' in entry && entry.event === 'open');
+        const end = entries.findIndex((entry, index) => index > start && 'event' in entry);
+        this.entries = entries.slice(start + 1, end === -1 ? undefined : end);
+        if (this.entries.length === 0) {
+            throw new Error(`Gravação sem tráfego: ${path.basename(this.filePath)}`);
+        }
+
+        this.name = `Reprodução: ${header?.address || path.basename(this.filePath)}`;
+        this.cursor = 0;
+        this.matchedBytes = 0;
+        this.opened = true;
+        this.release(this.entries[0].time);
+    }
+
+    async write(data: string | Buffer): Promise<void> {
+        if (!this.opened) {
+            throw new Error('Porta não está aberta');
+        }
+
+        const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data, 'utf8');
+        let offset = 0;
+        while (offset < buffer.length) {
+            const entry = this.entries[this.cursor];
+            if (!entry || !('dir' in entry) || entry.dir !== 'TX') {
+                throw this.diverge(`a gravação não tem mais envios neste ponto; recebido ${describeBytes(buffer.subarray(offset))}`);
+            }
+
+            const expected = Buffer.from(entry.data, 'base64');
+            const count = Math.min(expected.length - this.matchedBytes, buffer.length - offset);
+            const actual = buffer.subarray(offset, offset + count);
+            if (!actual.equals(expected.subarray(this.matchedBytes, this.matchedBytes + count))) {
+                throw this.diverge(`esperado ${describeBytes(expected.subarray(this.matchedBytes))}, recebido ${describeBytes(buffer.subarray(offset))}`);
+            }
+
+            offset += count;
+            this.matchedBytes += count;
+            if (this.matchedBytes === expected.length) {
+                this.cursor++;
+                this.matchedBytes = 0;
+                this.release(entry.time);
+            }
+        }
+    }
+
+    async close(): Promise<void> {
+        this.opened = false;
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+    }
+
+    async setSignals(_signals: TransportSignals): Promise<void> {
+        // Sinais gravados funcionam como um envio: liberam a saída que os seguiu (ex.: reset por DTR)
+        const entry = this.entries[this.cursor];
+        if (this.opened && entry && 'signals' in entry) {
+            this.cursor++;
+            this.release(entry.time);
+        }
+    }
+
+    /**
+     * Agenda os blocos RX seguintes até o próximo envio, com os atrasos gravados a partir de `since`
+     */
+    private release(since: number): void {
+        while (this.cursor < this.entries.length) {
+            const entry = this.entries[this.cursor];
+            if ('signals' in entry || ('dir' in entry && entry.dir === 'TX')) {
+                return;
+            }
+
+            this.cursor++;
+            if ('dir' in entry) {
+                const data = Buffer.from(entry.data, 'base64');
+                const timer = setTimeout(() => {
+                    this.timers.delete(timer);
+                    if (this.opened) {
+                        this.dataEmitter.fire(data);
+                    }
+                }, Math.max(0, entry.time - since));
+                this.timers.add(timer);
+            }
+        }
+    }
+
+    /**
+     * Encerra a reprodução; o erro é emitido em `onError` e rejeita a escrita que divergiu
+     */
+    private diverge(detail: string): Error {
+        const error = new Error(`Reprodução divergiu da gravação: ${detail}`);
+        this.close();
+        this.errorEmitter.fire(error);
+        return error;
+    }
+}
+
+/**
+ * Até 32 bytes, com caracteres de controle escapados, para mensagens de erro
+ */
+function describeBytes(data: Buffer): string {
+    const text = JSON.stringify(data.subarray(0, 32).toString('latin1'));
+    return data.length > 32 ? `${text}... (${data.length} bytes)` : text;
+}
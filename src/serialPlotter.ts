@@ -0,0 +1,389 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DeviceManager } from './deviceManager';
+import { RingBuffer } from './memoryMonitor';
+
+/** Linhas guardadas por dispositivo (e pontos por série no gráfico) */
+const MAX_CAPTURED_ROWS = 20000;
+
+/** Número isolado, com sinal, decimais e expoente opcionais */
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+/**
+ * Valores de uma linha recebida no instante `time` (ms desde a época)
+ */
+export interface PlotRow {
+    time: number;
+    values: Record<string, number>;
+}
+
+/**
+ * Extrai as séries numéricas de uma linha de saída
+ *
+ * Aceita pares `nome=valor` ou `nome:valor` e números soltos (CSV), separados por vírgula,
+ * ponto e vírgula, tab ou espaço; números soltos recebem o nome da coluna ("1", "2"...).
+ * Linhas com qualquer outro conteúdo (tracebacks, mensagens) não são plotadas.
+ *
+ * Exemplo: `temp=23.1,hum=40` → `{ temp: 23.1, hum: 40 }`; `1.5 2.5` → `{ "1": 1.5, "2": 2.5 }`
+ */
+export function parsePlotLine(line: string): Record<string, number> | undefined {
+    const tokens = line.trim().replace(/\s*([=:])\s*/g, '$1').split(/[,;\t ]+/).filter(Boolean);
+    if (tokens.length === 0) {
+        return undefined;
+    }
+
+    const values: Record<string, number> = {};
+    for (let index = 0; index < tokens.length; index++) {
+        const token = tokens[index];
+        const pair = token.match(/^([^=:]+)[=:](.+)$/);
+        const [name, value] = pair ? [pair[1], pair[2]] : [String(index + 1), token];
+        if (!NUMBER.test(value)) {
+            return undefined;
+        }
+        values[name] = Number(value);
+    }
+    return values;
+}
+
+/**
+ * Plotter serial: gráficos ao vivo das linhas numéricas impressas pela placa
+ *
+ * Problema: Acompanhar `print(f"temp={t},hum={h}")` exigia ler números rolando no canal de saída
+ * Solução: Cada linha recebida fora do modo raw (`onDidReceiveLine`) passa por `parsePlotLine`;
+ *          as séries vão para um webview com pausa, janela de tempo, zoom pela roda do mouse e
+ *          exportação CSV de tudo o que foi capturado desde a abertura do painel
+ * Exemplo: Um main.py que imprime `temp=23.1,hum=40` a cada segundo vira duas linhas no gráfico
+ */
+export class SerialPlotter implements vscode.Disposable {
+    private panels: Map<string, vscode.WebviewPanel> = new Map();
+    private rows: Map<string, RingBuffer<PlotRow>> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private deviceManager: DeviceManager) {
+        this.disposables.push(
+            deviceManager.onDidReceiveLine(({ deviceId, line }) => this.handleLine(deviceId, line)),
+            deviceManager.onDidDisconnect(device => this.panels.get(device.id)?.dispose())
+        );
+    }
+
+    /**
+     * Abre o plotter do dispositivo; a captura começa com o painel e termina quando ele é fechado
+     */
+    show(deviceId: string): void {
+        const device = this.deviceManager.getDevice(deviceId);
+        if (!device) {
+            throw new Error('Dispositivo não conectado');
+        }
+
+        const existing = this.panels.get(deviceId);
+        if (existing) {
+            existing.reveal();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'micropython-plotter',
+            `Plotter: ${device.name}`,
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        panel.webview.html = this.getHtml(panel.webview);
+        panel.webview.onDidReceiveMessage(message => {
+            if (message?.command === 'export') {
+                this.exportCsv(deviceId).catch(error => vscode.window.showErrorMessage(`Erro ao exportar CSV: ${error}`));
+            } else if (message?.command === 'clear') {
+                this.rows.set(deviceId, new RingBuffer(MAX_CAPTURED_ROWS));
+            }
+        });
+        panel.onDidDispose(() => {
+            this.panels.delete(deviceId);
+            this.rows.delete(deviceId);
+        });
+
+        this.panels.set(deviceId, panel);
+        this.rows.set(deviceId, new RingBuffer(MAX_CAPTURED_ROWS));
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.panels.forEach(panel => panel.dispose());
+        this.panels.clear();
+        this.rows.clear();
+    }
+
+    private handleLine(deviceId: string, line: string): void {
+        const panel = this.panels.get(deviceId);
+        const values = panel ? parsePlotLine(line) : undefined;
+        if (!panel || !values) {
+            return;
+        }
+
+        const row: PlotRow = { time: Date.now(), values };
+        this.rows.get(deviceId)?.push(row);
+        panel.webview.postMessage({ command: 'data', ...row });
+    }
+
+    /**
+     * Grava as linhas capturadas em CSV: tempo relativo em segundos e uma coluna por série
+     */
+    private async exportCsv(deviceId: string): Promise<void> {
+        const rows = this.rows.get(deviceId)?.toArray() || [];
+        if (rows.length === 0) {
+            vscode.window.showWarningMessage('Nenhum dado capturado para exportar');
+            return;
+        }
+
+        const device = this.deviceManager.getDevice(deviceId);
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+        const fileName = `${(device?.name || 'plotter').replace(/[^\w.-]+/g, '_')}.csv`;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(path.join(folder, fileName)),
+            filters: { 'CSV': ['csv'] }
+        });
+        if (!target) {
+            return;
+        }
+
+        // Colunas na ordem em que as séries apareceram
+        const columns: string[] = [];
+        rows.forEach(row => Object.keys(row.values).forEach(name => {
+            if (!columns.includes(name)) {
+                columns.push(name);
+            }
+        }));
+
+        const start = rows[0].time;
+        const escape = (name: string) => /[",\n]/.test(name) ? `"${name.replace(/"/g, '""')}"` : name;
+        const lines = [
+            ['tempo_s', ...columns].map(escape).join(','),
+            ...rows.map(row => [
+                ((row.time - start) / 1000).toFixed(3),
+                ...columns.map(name => row.values[name] !== undefined ? String(row.values[name]) : '')
+            ].join(','))
+        ];
+
+        await fs.promises.writeFile(target.fsPath, lines.join('\n') + '\n', 'utf8');
+        vscode.window.showInformationMessage(`${rows.length} linhas exportadas para ${path.basename(target.fsPath)}`);
+    }
+
+    private getHtml(webview: vscode.Webview): string {
+        const nonce = crypto.randomBytes(16).toString('hex');
+
+        return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px; display: flex; flex-direction: column; height: 100vh; box-sizing: border-box; margin: 0; }
+    #toolbar { display: flex; gap: 8px; align-items: center; padding: 8px 0; flex-wrap: wrap; }
+    button, select { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 10px; cursor: pointer; }
+    select { color: var(--vscode-dropdown-foreground); background: var(--vscode-dropdown-background); }
+    #legend label { margin-right: 12px; cursor: pointer; }
+    #status { color: var(--vscode-descriptionForeground); margin-left: auto; }
+    canvas { flex: 1; width: 100%; min-height: 200px; }
+</style>
+</head>
+<body>
+<div id="toolbar">
+    <button id="pause">Pausar</button>
+    <label>Janela
+        <select id="window">
+            <option value="10000">10 s</option>
+            <option value="30000" selected>30 s</option>
+            <option value="60000">1 min</option>
+            <option value="300000">5 min</option>
+            <option value="0">Tudo</option>
+        </select>
+    </label>
+    <button id="clear">Limpar</button>
+    <button id="export">Exportar CSV</button>
+    <span id="status">Aguardando linhas como "temp=23.1,hum=40"...</span>
+</div>
+<div id="legend"></div>
+<canvas id="chart"></canvas>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const MAX_POINTS = ${MAX_CAPTURED_ROWS};
+    const style = getComputedStyle(document.body);
+    const palette = ['blue', 'red', 'green', 'yellow', 'orange', 'purple']
+        .map(name => style.getPropertyValue('--vscode-charts-' + name).trim() || name);
+    const canvas = document.getElementById('chart');
+    const context = canvas.getContext('2d');
+    const series = new Map();
+    let paused = false;
+    let pausedAt = 0;
+    let windowMs = 30000;
+    let latest = 0;
+    let dirty = true;
+
+    function addSeries(name) {
+        // \`points\` a partir de \`start\`: os descartados ficam no início até a próxima compactação
+        const entry = { color: palette[series.size % palette.length], points: [], start: 0, visible: true };
+        series.set(name, entry);
+        const label = document.createElement('label');
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.checked = true;
+        checkbox.addEventListener('change', () => { entry.visible = checkbox.checked; dirty = true; });
+        label.append(checkbox, ' ');
+        const swatch = document.createElement('span');
+        swatch.textContent = '■ ' + name;
+        swatch.style.color = entry.color;
+        label.append(swatch);
+        document.getElementById('legend').append(label);
+        return entry;
+    }
+
+    function addPoint(entry, point) {
+        entry.points.push(point);
+        if (entry.points.length - entry.start > MAX_POINTS) {
+            entry.start++;
+        }
+        // Compacta de vez em quando em vez de um shift() (que copia o array inteiro) por ponto
+        if (entry.start >= MAX_POINTS) {
+            entry.points.splice(0, entry.start);
+            entry.start = 0;
+        }
+    }
+
+    // Horário do ponto mais antigo; com laços para não espalhar milhares de argumentos em Math.min
+    function firstTime(entries) {
+        let first = Infinity;
+        for (const entry of entries) {
+            if (entry.points.length > entry.start) {
+                first = Math.min(first, entry.points[entry.start][0]);
+            }
+        }
+        return first;
+    }
+
+    function pointsInWindow(entry, start, end) {
+        const points = [];
+        for (let index = entry.start; index < entry.points.length; index++) {
+            const point = entry.points[index];
+            if (point[0] >= start && point[0] <= end) {
+                points.push(point);
+            }
+        }
+        return points;
+    }
+
+    function draw() {
+        requestAnimationFrame(draw);
+        if (!dirty) {
+            return;
+        }
+        dirty = false;
+
+        const ratio = window.devicePixelRatio || 1;
+        canvas.width = canvas.clientWidth * ratio;
+        canvas.height = canvas.clientHeight * ratio;
+        context.setTransform(ratio, 0, 0, ratio, 0, 0);
+        const width = canvas.clientWidth;
+        const height = canvas.clientHeight;
+        context.clearRect(0, 0, width, height);
+
+        const visible = [...series.values()].filter(entry => entry.visible && entry.points.length > entry.start);
+        if (visible.length === 0) {
+            return;
+        }
+
+        const end = paused ? pausedAt : latest;
+        const start = windowMs > 0 ? end - windowMs : firstTime(visible);
+        const windows = visible.map(entry => pointsInWindow(entry, start, end));
+        let min = Infinity;
+        let max = -Infinity;
+        for (const points of windows) {
+            for (const [, value] of points) {
+                min = Math.min(min, value);
+                max = Math.max(max, value);
+            }
+        }
+        if (min > max) {
+            return;
+        }
+
+        const padding = (max - min) * 0.05 || Math.abs(max) * 0.05 || 1;
+        min -= padding;
+        max += padding;
+
+        const left = 56;
+        const x = time => left + (time - start) / Math.max(1, end - start) * (width - left - 8);
+        const y = value => 8 + (max - value) / (max - min) * (height - 32);
+
+        context.font = '11px ' + style.getPropertyValue('--vscode-font-family');
+        context.fillStyle = style.getPropertyValue('--vscode-descriptionForeground');
+        context.strokeStyle = style.getPropertyValue('--vscode-widget-border') || '#8884';
+        context.lineWidth = 1;
+        for (let step = 0; step <= 4; step++) {
+            const value = min + (max - min) * step / 4;
+            context.beginPath();
+            context.moveTo(left, y(value));
+            context.lineTo(width - 8, y(value));
+            context.stroke();
+            context.fillText(value.toPrecision(4), 4, y(value) + 4);
+        }
+        context.fillText('-' + ((end - start) / 1000).toFixed(0) + ' s', left, height - 6);
+        context.fillText(paused ? 'pausado' : 'agora', width - 50, height - 6);
+
+        context.lineWidth = 2;
+        visible.forEach((entry, seriesIndex) => {
+            context.strokeStyle = entry.color;
+            context.beginPath();
+            windows[seriesIndex].forEach(([time, value], index) => {
+                index === 0 ? context.moveTo(x(time), y(value)) : context.lineTo(x(time), y(value));
+            });
+            context.stroke();
+        });
+    }
+
+    window.addEventListener('message', event => {
+        const message = event.data;
+        if (message.command === 'data') {
+            for (const [name, value] of Object.entries(message.values)) {
+                const entry = series.get(name) || addSeries(name);
+                addPoint(entry, [message.time, value]);
+            }
+            latest = message.time;
+            document.getElementById('status').textContent = Object.entries(message.values)
+                .map(([name, value]) => name + ': ' + value).join('  ');
+            dirty = dirty || !paused;
+        }
+    });
+
+    document.getElementById('pause').addEventListener('click', event => {
+        paused = !paused;
+        pausedAt = latest;
+        event.target.textContent = paused ? 'Continuar' : 'Pausar';
+        dirty = true;
+    });
+    document.getElementById('window').addEventListener('change', event => {
+        windowMs = Number(event.target.value);
+        dirty = true;
+    });
+    // Roda do mouse: aproxima ou afasta a janela de tempo
+    canvas.addEventListener('wheel', event => {
+        event.preventDefault();
+        if (windowMs === 0) {
+            windowMs = Math.max(1000, latest - firstTime(series.values()));
+        }
+        windowMs = Math.min(3600000, Math.max(1000, windowMs * (event.deltaY > 0 ? 1.25 : 0.8)));
+        dirty = true;
+    }, { passive: false });
+    document.getElementById('clear').addEventListener('click', () => {
+        series.clear();
+        document.getElementById('legend').replaceChildren();
+        vscode.postMessage({ command: 'clear' });
+        dirty = true;
+    });
+    document.getElementById('export').addEventListener('click', () => vscode.postMessage({ command: 'export' }));
+    window.addEventListener('resize', () => dirty = true);
+    requestAnimationFrame(draw);
+</script>
+</body>
+</html>`;
+    }
+}
@@ -0,0 +1,173 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { StringDecoder } from 'string_decoder';
+import { TrafficDirection } from './types';
+
+/** Espera antes de gravar as linhas acumuladas (e as linhas parciais, como o prompt) */
+const FLUSH_DELAY_MS = 250;
+
+/**
+ * Limites de rotação de um log de sessão
+ */
+export interface SessionLogOptions {
+    /** Tamanho máximo do arquivo atual antes de rotacionar (bytes) */
+    maxSize: number;
+    /** Quantidade de arquivos rotacionados guardados (`.1.log` é o mais recente) */
+    maxFiles: number;
+}
+
+/**
+ * Pasta dos logs de sessão: `.micropython/logs` do workspace ou o armazenamento global da extensão
+ */
+export function sessionLogDirectory(context: vscode.ExtensionContext, location: 'workspace' | 'global'): string {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (location === 'workspace' && folder) {
+        return path.join(folder.uri.fsPath, '.micropython', 'logs');
+    }
+    return path.join(context.globalStorageUri.fsPath, 'logs');
+}
+
+/**
+ * Log em disco de uma sessão serial, com horário do host e sentido de cada linha
+ *
+ * Problema: O canal de saída do dispositivo é descartado ao desconectar, e não havia o que
+ *           anexar a relatos de falhas em campo
+ * Solução: Grava TX/RX em `<id>.log`, uma linha por linha recebida/enviada com horário ISO e
+ *          caracteres de controle escapados (`\x03`), e rotaciona por tamanho
+ * Exemplo: `2026-10-19T14:03:12.345Z RX temp=23.1` seguido de `... -- Conexão perdida`
+ */
+export class SessionLog {
+    private lines: string[] = [];
+    // Linha ainda sem quebra, com o horário em que começou a chegar
+    private partial: { direction: TrafficDirection, text: string, time: Date } | undefined;
+    private decoders: Record<TrafficDirection, StringDecoder> = { TX: new StringDecoder('utf8'), RX: new StringDecoder('utf8') };
+    private flushTimer: NodeJS.Timeout | undefined;
+    private writing: Promise<void> = Promise.resolve();
+    // Tamanho atual do arquivo (lido no primeiro acréscimo)
+    private size: number | undefined;
+    private closed = false;
+
+    constructor(readonly filePath: string, private options: SessionLogOptions) {}
+
+    /**
+     * Registra bytes enviados ou recebidos; linhas incompletas aguardam o restante
+     */
+    record(direction: TrafficDirection, data: string | Buffer): void {
+        if (this.closed) {
+            return;
+        }
+
+        if (this.partial && this.partial.direction !== direction) {
+            this.flushPartial();
+        }
+
+        const text = (this.partial?.text || '') + (typeof data === 'string' ? data : this.decoders[direction].write(data));
+        const time = this.partial?.time || new Date();
+        const lines = text.split('\n');
+        const rest = lines.pop() as string;
+
+        lines.forEach((line, index) => this.push(direction, line, index === 0 ? time : new Date()));
+        this.partial = rest ? { direction, text: rest, time: lines.length > 0 ? new Date() : time } : undefined;
+        this.scheduleFlush();
+    }
+
+    /**
+     * Registra um evento da extensão (conexão, reconexão, desconexão)
+     */
+    note(message: string): void {
+        if (this.closed) {
+            return;
+        }
+
+        this.flushPartial();
+        this.push('--', message, new Date());
+        this.scheduleFlush();
+    }
+
+    updateOptions(options: SessionLogOptions): void {
+        this.options = options;
+    }
+
+    /**
+     * Grava tudo o que está pendente, inclusive a linha incompleta
+     */
+    flush(): Promise<void> {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = undefined;
+        }
+        this.flushPartial();
+
+        const chunk = this.lines.join('');
+        this.lines = [];
+        if (chunk) {
+            this.writing = this.writing
+                .then(() => this.append(chunk))
+                .catch(error => console.log(`Erro ao gravar log de sessão ${this.filePath}:`, error));
+        }
+        return this.writing;
+    }
+
+    async close(): Promise<void> {
+        await this.flush();
+        this.closed = true;
+    }
+
+    private push(marker: TrafficDirection | '--', line: string, time: Date): void {
+        this.lines.push(`${time.toISOString()} ${marker} ${escapeControl(line.replace(/\r$/, ''))}\n`);
+    }
+
+    private flushPartial(): void {
+        if (this.partial) {
+            this.push(this.partial.direction, this.partial.text, this.partial.time);
+            this.partial = undefined;
+        }
+    }
+
+    private scheduleFlush(): void {
+        if (!this.flushTimer) {
+            this.flushTimer = setTimeout(() => {
+                this.flushTimer = undefined;
+                this.flush();
+            }, FLUSH_DELAY_MS);
+        }
+    }
+
+    private async append(chunk: string): Promise<void> {
+        if (this.size === undefined) {
+            await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+            this.size = await fs.promises.stat(this.filePath).then(stat => stat.size, () => 0);
+        }
+
+        const bytes = Buffer.byteLength(chunk);
+        if (this.size > 0 && this.size + bytes > this.options.maxSize) {
+            await this.rotate();
+        }
+
+        await fs.promises.appendFile(this.filePath, chunk, 'utf8');
+        this.size += bytes;
+    }
+
+    /**
+     * `<id>.log` → `<id>.1.log` → `<id>.2.log`...; o mais antigo além de `maxFiles` é sobrescrito
+     */
+    private async rotate(): Promise<void> {
+        const rotated = (index: number) => this.filePath.replace(/\.log$/, `.${index}.log`);
+        const ignoreMissing = (error: NodeJS.ErrnoException) => {
+            if (error.code !== 'ENOENT') {
+                throw error;
+            }
+        };
+
+        for (let index = this.options.maxFiles - 1; index >= 1; index--) {
+            await fs.promises.rename(rotated(index), rotated(index + 1)).catch(ignoreMissing);
+        }
+        await fs.promises.rename(this.filePath, rotated(1)).catch(ignoreMissing);
+        this.size = 0;
+    }
+}
+
+function escapeControl(text: string): string {
+    return text.replace(/[\x00-\x08\x0b-\x1f\x7f]/g, char => `\\x${char.charCodeAt(0).toString(16).padStart(2, '0')}`);
+}
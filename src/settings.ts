@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+
+/** Seção das configurações da extensão */
+const SETTINGS_SECTION = 'micropython-manager';
+
+/**
+ * Configurações da extensão já validadas e com valores padrão aplicados
+ */
+export interface ExtensionSettings {
+    /** Baudrate tentado primeiro em portas seriais */
+    defaultBaudRate: number;
+    /** Baudrates tentados em seguida, se o padrão falhar */
+    fallbackBaudRates: number[];
+    /** Tempo máximo para abrir conexões de rede e entrar no raw REPL (ms) */
+    connectionTimeout: number;
+    /** Tempo máximo sem saída durante um comando (ms) */
+    commandTimeout: number;
+    /** Tempo máximo para listar um diretório (ms) */
+    fileListTimeout: number;
+    /** Tempo máximo de cada etapa de upload/download (ms) */
+    transferTimeout: number;
+    /** Reconectar automaticamente após perda de conexão */
+    autoReconnect: boolean;
+    /** Coletar e exibir o uso de memória dos dispositivos */
+    memoryMonitoring: boolean;
+    /** Intervalo entre amostras do monitor de memória (ms) */
+    memoryMonitorInterval: number;
+    /** Quantidade de amostras guardadas por dispositivo */
+    memoryHistorySize: number;
+    /** Gravar em disco o tráfego serial de cada dispositivo */
+    sessionLogging: boolean;
+    /** Onde ficam os logs de sessão: pasta do workspace ou armazenamento global */
+    sessionLogLocation: 'workspace' | 'global';
+    /** Tamanho máximo de cada log de sessão antes de rotacionar (bytes) */
+    sessionLogMaxSize: number;
+    /** Quantidade de logs rotacionados guardados por dispositivo */
+    sessionLogMaxFiles: number;
+    /** Executável do MicroPython unix port */
+    unixPortPath: string;
+    /** O que fazer com a fila do dispositivo quando a operação em execução é cancelada */
+    cancelPolicy: 'keepQueued' | 'dropQueued';
+}
+
+/**
+ * Acesso tipado às configurações, atualizado ao vivo
+ *
+ * Problema: Baudrates e timeouts estavam fixos no código, e o README documentava opções inexistentes
+ * Solução: Lê `micropython-manager.*` uma vez, valida e relê a cada `onDidChangeConfiguration`;
+ *          valores do workspace sobrepõem os do usuário, como em qualquer configuração do VS Code
+ * Exemplo: `settings.value.commandTimeout` reflete imediatamente uma alteração em settings.json
+ */
+export class SettingsService implements vscode.Disposable {
+    private current: ExtensionSettings;
+    private subscription: vscode.Disposable;
+
+    private _onDidChange = new vscode.EventEmitter<ExtensionSettings>();
+    readonly onDidChange: vscode.Event<ExtensionSettings> = this._onDidChange.event;
+
+    constructor() {
+        this.current = this.read();
+        this.subscription = vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration(SETTINGS_SECTION)) {
+                this.current = this.read();
+                this._onDidChange.fire(this.current);
+            }
+        });
+    }
+
+    get value(): Readonly<ExtensionSettings> {
+        return this.current;
+    }
+
+    /**
+     * Baudrates na ordem de tentativa, sem repetições
+     */
+    get baudRates(): number[] {
+        return Array.from(new Set([this.current.defaultBaudRate, ...this.current.fallbackBaudRates]));
+    }
+
+    dispose(): void {
+        this.subscription.dispose();
+        this._onDidChange.dispose();
+    }
+
+    private read(): ExtensionSettings {
+        const config = vscode.workspace.getConfiguration(SETTINGS_SECTION);
+        const positive = (key: string, fallback: number) => {
+            const value = config.get<number>(key, fallback);
+            return typeof value === 'number' && value > 0 ? value : fallback;
+        };
+
+        return {
+            defaultBaudRate: positive('defaultBaudRate', 115200),
+            fallbackBaudRates: config.get<number[]>('fallbackBaudRates', [9600, 57600]).filter(rate => rate > 0),
+            connectionTimeout: positive('connectionTimeout', 10000),
+            commandTimeout: positive('commandTimeout', 10000),
+            fileListTimeout: positive('fileListTimeout', 15000),
+            transferTimeout: positive('transferTimeout', 30000),
+            autoReconnect: config.get<boolean>('autoReconnect', true),
+            memoryMonitoring: config.get<boolean>('memoryMonitoring', false),
+            memoryMonitorInterval: Math.max(1000, positive('memoryMonitorInterval', 5000)),
+            memoryHistorySize: Math.round(positive('memoryHistorySize', 720)),
+            sessionLogging: config.get<boolean>('sessionLogging', false),
+            sessionLogLocation: config.get<string>('sessionLogLocation') === 'global' ? 'global' : 'workspace',
+            sessionLogMaxSize: Math.max(10240, positive('sessionLogMaxSize', 1048576)),
+            sessionLogMaxFiles: Math.round(positive('sessionLogMaxFiles', 5)),
+            unixPortPath: config.get<string>('unixPortPath', 'micropython') || 'micropython',
+            cancelPolicy: config.get<string>('cancelPolicy') === 'dropQueued' ? 'dropQueued' : 'keepQueued'
+        };
+    }
+}
@@ -0,0 +1,195 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DeviceManager } from './deviceManager';
+import { REPLManager } from './replManager';
+import { findProjectFiles, resolveConnectedDevice, toRemotePath } from './projectFiles';
+
+/** Tipo de tarefa registrado no package.json */
+export const MICROPYTHON_TASK_TYPE = 'micropython';
+
+/** Problem matcher dos tracebacks (contribuído no package.json) */
+const PROBLEM_MATCHER = '$micropython';
+
+/**
+ * Atributos de uma tarefa `"type": "micropython"` do tasks.json
+ */
+export interface MicroPythonTaskDefinition extends vscode.TaskDefinition {
+    /** `upload` envia arquivos, `run` executa um script e `reset` faz soft reset */
+    action: 'upload' | 'run' | 'reset';
+    /** ID, nome ou porta do dispositivo; sem ele, pergunta entre os conectados */
+    device?: string;
+    /** Pasta base de `files` e `script` (padrão: pasta do workspace) */
+    cwd?: string;
+    /** upload: globs dos arquivos enviados (padrão: todos os .py) */
+    files?: string[];
+    /** upload: pasta do dispositivo que corresponde a `cwd` (padrão: `/`) */
+    remoteRoot?: string;
+    /** run: arquivo local executado (padrão: `main.py`) */
+    script?: string;
+}
+
+/**
+ * Tarefas do tasks.json para o fluxo de trabalho com a placa
+ *
+ * Problema: Enviar o projeto, executar main.py e reiniciar eram comandos avulsos da paleta,
+ *          impossíveis de encadear ou de associar ao Ctrl+Shift+B
+ * Solução: Tipo de tarefa `micropython` cujas execuções (`CustomExecution`) chamam `uploadFile`,
+ *          `executeScript` e `resetDevice` e escrevem a saída em um pseudoterminal; o problem
+ *          matcher `$micropython` transforma tracebacks em problemas
+ * Exemplo: `{ "type": "micropython", "action": "run", "dependsOn": ["micropython: enviar projeto"] }`
+ */
+export class MicroPythonTaskProvider implements vscode.TaskProvider {
+    constructor(private deviceManager: DeviceManager, private replManager: REPLManager) {}
+
+    provideTasks(): vscode.Task[] {
+        const upload = this.createTask({ type: MICROPYTHON_TASK_TYPE, action: 'upload' }, 'enviar projeto');
+        upload.group = vscode.TaskGroup.Build;
+
+        return [
+            upload,
+            this.createTask({ type: MICROPYTHON_TASK_TYPE, action: 'run' }, 'executar main.py'),
+            this.createTask({ type: MICROPYTHON_TASK_TYPE, action: 'reset' }, 'soft reset')
+        ];
+    }
+
+    resolveTask(task: vscode.Task): vscode.Task | undefined {
+        const definition = task.definition as MicroPythonTaskDefinition;
+        if (definition.type !== MICROPYTHON_TASK_TYPE || !definition.action) {
+            return undefined;
+        }
+
+        const scope = task.scope ?? vscode.TaskScope.Workspace;
+        return this.createTask(definition, task.name, scope, task.problemMatchers);
+    }
+
+    private createTask(
+        definition: MicroPythonTaskDefinition,
+        name: string,
+        scope: vscode.WorkspaceFolder | vscode.TaskScope = vscode.TaskScope.Workspace,
+        problemMatchers?: string[]
+    ): vscode.Task {
+        const folder = typeof scope === 'object' ? scope : vscode.workspace.workspaceFolders?.[0];
+        return new vscode.Task(
+            definition,
+            scope,
+            name,
+            MICROPYTHON_TASK_TYPE,
+            new vscode.CustomExecution(async resolved => new MicroPythonTaskTerminal(
+                resolved as MicroPythonTaskDefinition,
+                folder?.uri.fsPath,
+                this.deviceManager,
+                this.replManager
+            )),
+            problemMatchers?.length ? problemMatchers : definition.action === 'run' ? [PROBLEM_MATCHER] : []
+        );
+    }
+}
+
+/**
+ * Pseudoterminal de uma tarefa; fechar o terminal cancela a operação (Ctrl+C na placa)
+ */
+class MicroPythonTaskTerminal implements vscode.Pseudoterminal {
+    private writeEmitter = new vscode.EventEmitter<string>();
+    private closeEmitter = new vscode.EventEmitter<number>();
+    private cancellation = new vscode.CancellationTokenSource();
+
+    onDidWrite: vscode.Event<string> = this.writeEmitter.event;
+    onDidClose: vscode.Event<number> = this.closeEmitter.event;
+
+    constructor(
+        private definition: MicroPythonTaskDefinition,
+        private workspaceFolder: string | undefined,
+        private deviceManager: DeviceManager,
+        private replManager: REPLManager
+    ) {}
+
+    open(): void {
+        this.run().then(
+            exitCode => this.closeEmitter.fire(exitCode),
+            error => {
+                if (!(error instanceof vscode.CancellationError)) {
+                    this.write(`\x1b[31mErro: ${error instanceof Error ? error.message : error}\x1b[0m\n`);
+                }
+                this.closeEmitter.fire(1);
+            }
+        );
+    }
+
+    close(): void {
+        this.cancellation.cancel();
+    }
+
+    private async run(): Promise<number> {
+        const device = await resolveConnectedDevice(this.deviceManager, this.definition.device, 'Selecione o dispositivo da tarefa');
+        if (!device) {
+            this.write('Nenhum dispositivo selecionado.\n');
+            return 1;
+        }
+
+        const cwd = this.definition.cwd || this.workspaceFolder;
+        const token = this.cancellation.token;
+        this.write(`\x1b[36m${device.name} (${device.port})\x1b[0m\n`);
+
+        switch (this.definition.action) {
+            case 'upload': {
+                if (!cwd) {
+                    throw new Error('Abra uma pasta ou defina "cwd" na tarefa');
+                }
+                const files = await findProjectFiles(cwd, this.definition.files || ['**/*.py']);
+                for (const localPath of files) {
+                    const remotePath = toRemotePath(cwd, localPath, this.definition.remoteRoot);
+                    this.write(`Enviando ${remotePath}...\n`);
+                    await this.deviceManager.uploadFile(device.id, localPath, remotePath, token);
+                }
+                this.write(`${files.length} arquivo(s) enviado(s).\n`);
+                return 0;
+            }
+
+            case 'run': {
+                const scriptPath = path.resolve(cwd || '', this.definition.script || 'main.py');
+                const content = fs.readFileSync(scriptPath, 'utf8');
+                const result = await this.replManager.executeScript(
+                    device.id, content, scriptPath, { path: scriptPath }, {
+                        token,
+                        onOutput: chunk => {
+                            // O traceback é escrito no fim, com os caminhos locais
+                            if (chunk.stream === 'stdout') {
+                                this.write(chunk.text);
+                            }
+                        }
+                    }
+                );
+                if (result.exception) {
+                    this.write(this.localizeTraceback(device.id, result.stderr, scriptPath));
+                    return 1;
+                }
+                return 0;
+            }
+
+            case 'reset':
+                await this.deviceManager.resetDevice(device.id, token);
+                this.write('Soft reset enviado.\n');
+                return 0;
+
+            default:
+                throw new Error(`Ação desconhecida: ${this.definition.action}`);
+        }
+    }
+
+    /**
+     * Troca os caminhos do dispositivo pelos locais, para o problem matcher abrir o arquivo certo
+     *
+     * `<stdin>` é o próprio script; arquivos enviados por upload usam a origem registrada.
+     */
+    private localizeTraceback(deviceId: string, traceback: string, scriptPath: string): string {
+        return traceback.replace(/File "([^"]+)"/g, (match, file: string) => {
+            const localPath = file === '<stdin>' ? scriptPath : this.deviceManager.getUploadSource(deviceId, file);
+            return localPath ? `File "${localPath}"` : match;
+        });
+    }
+
+    private write(text: string): void {
+        this.writeEmitter.fire(text.replace(/\r?\n/g, '\r\n'));
+    }
+}
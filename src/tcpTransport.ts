@@ -0,0 +1,322 @@
+import * as vscode from 'vscode';
+import * as net from 'net';
+import { Transport, TransportSignals } from './transport';
+
+/** Comandos Telnet (RFC 854) */
+const IAC = 255;
+const DONT = 254;
+const DO = 253;
+const WONT = 252;
+const WILL = 251;
+const SB = 250;
+const SE = 240;
+
+/** Opções Telnet negociadas com o servidor */
+const OPTION_BINARY = 0;
+const OPTION_ECHO = 1;
+const OPTION_SGA = 3;
+const OPTION_COM_PORT = 44;
+
+/** Subcomandos COM-PORT-OPTION (RFC 2217); respostas do servidor somam 100 */
+const SET_BAUDRATE = 1;
+const SET_DATASIZE = 2;
+const SET_PARITY = 3;
+const SET_STOPSIZE = 4;
+const SET_CONTROL = 5;
+const SERVER_OFFSET = 100;
+
+/** Valores de SET-CONTROL */
+const CONTROL_NO_FLOW = 1;
+const CONTROL_DTR_ON = 8;
+const CONTROL_DTR_OFF = 9;
+const CONTROL_RTS_ON = 11;
+const CONTROL_RTS_OFF = 12;
+
+/**
+ * Transporte TCP bruto (ex.: ser2net em modo raw, conversores serial-Ethernet)
+ *
+ * Problema: Placas ligadas a servidores seriais de bancada não aparecem como porta local
+ * Solução: Abre um socket TCP e repassa os bytes sem nenhuma interpretação
+ * Exemplo: `tcp://lab-pc:4000` se comporta como /dev/ttyUSB0 naquela máquina
+ */
+export class TcpTransport implements Transport {
+    protected socket: net.Socket | undefined;
+    protected dataEmitter = new vscode.EventEmitter<Buffer>();
+    private errorEmitter = new vscode.EventEmitter<Error>();
+
+    readonly onData = this.dataEmitter.event;
+    readonly onError = this.errorEmitter.event;
+
+    constructor(protected host: string, protected port: number, protected timeoutMs: number = 10000) {}
+
+    get description(): string {
+        return `tcp://${this.host}:${this.port}`;
+    }
+
+    get isOpen(): boolean {
+        return this.socket !== undefined && !this.socket.destroyed;
+    }
+
+    open(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const socket = net.connect({ host: this.host, port: this.port });
+            let connected = false;
+
+            const timer = setTimeout(() => {
+                this.socket = undefined;
+                socket.destroy();
+                reject(new Error(`Timeout ao conectar em ${this.host}:${this.port}`));
+            }, this.timeoutMs);
+
+            socket.once('connect', async () => {
+                socket.setNoDelay(true);
+                this.socket = socket;
+                try {
+                    await this.onConnected();
+                    connected = true;
+                    clearTimeout(timer);
+                    resolve();
+                } catch (error) {
+                    clearTimeout(timer);
+                    this.socket = undefined;
+                    socket.destroy();
+                    reject(error);
+                }
+            });
+
+            socket.on('data', (chunk: Buffer) => this.handleIncoming(chunk));
+
+            socket.on('error', (err: Error) => {
+                if (connected) {
+                    this.errorEmitter.fire(err);
+                } else {
+                    clearTimeout(timer);
+                    reject(err);
+                }
+            });
+
+            socket.on('close', () => {
+                if (connected && this.socket === socket) {
+                    this.socket = undefined;
+                    this.errorEmitter.fire(new Error(`Conexão com ${this.host}:${this.port} encerrada pelo servidor`));
+                }
+            });
+        });
+    }
+
+    write(data: string | Buffer): Promise<void> {
+        return this.send(this.encode(Buffer.isBuffer(data) ? data : Buffer.from(data)));
+    }
+
+    async close(): Promise<void> {
+        const socket = this.socket;
+        this.socket = undefined;
+        socket?.destroy();
+    }
+
+    async setSignals(_signals: TransportSignals): Promise<void> {
+        // Sem efeito: TCP bruto não transporta linhas de controle
+    }
+
+    /**
+     * Chamado após a conexão TCP, antes de considerar o transporte aberto
+     */
+    protected async onConnected(): Promise<void> {
+        // Nada a negociar no modo bruto
+    }
+
+    /**
+     * Trata bytes recebidos do socket
+     */
+    protected handleIncoming(chunk: Buffer): void {
+        this.dataEmitter.fire(chunk);
+    }
+
+    /**
+     * Prepara bytes do usuário para envio
+     */
+    protected encode(data: Buffer): Buffer {
+        return data;
+    }
+
+    protected send(data: Buffer): Promise<void> {
+        const socket = this.socket;
+        if (!socket) {
+            return Promise.reject(new Error(`Conexão com ${this.host}:${this.port} não está aberta`));
+        }
+
+        return new Promise((resolve, reject) => {
+            socket.write(data, (err) => {
+                if (err) {
+                    reject(err);
+                } else {
+                    resolve();
+                }
+            });
+        });
+    }
+}
+
+/**
+ * Transporte RFC 2217 (Telnet COM-PORT-OPTION)
+ *
+ * Problema: Em TCP bruto não há como trocar o baudrate nem pulsar DTR/RTS para resetar a placa
+ * Solução: Negocia a opção COM-PORT do Telnet, configura a porta remota e escapa bytes 0xFF
+ * Exemplo: `rfc2217://lab-pc:2217` com 115200 baud configura a UART do servidor antes do REPL
+ */
+export class Rfc2217Transport extends TcpTransport {
+    private state: 'data' | 'iac' | 'option' | 'sb' | 'sb-iac' = 'data';
+    private command = 0;
+    private subnegotiation: number[] = [];
+    private baudRateAck: (() => void) | undefined;
+
+    readonly hasControlLines = true;
+
+    constructor(host: string, port: number, private baudRate: number, timeoutMs: number = 10000) {
+        super(host, port, timeoutMs);
+    }
+
+    get description(): string {
+        return `rfc2217://${this.host}:${this.port}`;
+    }
+
+    async setSignals(signals: TransportSignals): Promise<void> {
+        if (signals.dtr !== undefined) {
+            await this.sendComPort(SET_CONTROL, [signals.dtr ? CONTROL_DTR_ON : CONTROL_DTR_OFF]);
+        }
+        if (signals.rts !== undefined) {
+            await this.sendComPort(SET_CONTROL, [signals.rts ? CONTROL_RTS_ON : CONTROL_RTS_OFF]);
+        }
+    }
+
+    /**
+     * Negocia as opções Telnet e configura a porta remota (8N1, sem controle de fluxo)
+     */
+    protected async onConnected(): Promise<void> {
+        const acknowledged = new Promise<void>(resolve => this.baudRateAck = resolve);
+
+        await this.send(Buffer.from([
+            IAC, WILL, OPTION_BINARY, IAC, DO, OPTION_BINARY,
+            IAC, WILL, OPTION_SGA, IAC, DO, OPTION_SGA,
+            IAC, DO, OPTION_ECHO,
+            IAC, WILL, OPTION_COM_PORT
+        ]));
+
+        const baud = Buffer.alloc(4);
+        baud.writeUInt32BE(this.baudRate, 0);
+        await this.sendComPort(SET_BAUDRATE, [...baud]);
+        await this.sendComPort(SET_DATASIZE, [8]);
+        await this.sendComPort(SET_PARITY, [1]);
+        await this.sendComPort(SET_STOPSIZE, [1]);
+        await this.sendComPort(SET_CONTROL, [CONTROL_NO_FLOW]);
+
+        // O servidor confirma o baudrate; sem isso a porta remota não está configurada
+        await acknowledged;
+    }
+
+    /**
+     * Separa os dados da porta serial dos comandos Telnet
+     */
+    protected handleIncoming(chunk: Buffer): void {
+        const data: number[] = [];
+
+        for (const byte of chunk) {
+            switch (this.state) {
+                case 'data':
+                    if (byte === IAC) {
+                        this.state = 'iac';
+                    } else {
+                        data.push(byte);
+                    }
+                    break;
+                case 'iac':
+                    if (byte === IAC) {
+                        // 0xFF escapado
+                        data.push(IAC);
+                        this.state = 'data';
+                    } else if (byte === SB) {
+                        this.subnegotiation = [];
+                        this.state = 'sb';
+                    } else if (byte >= WILL && byte <= DONT) {
+                        this.command = byte;
+                        this.state = 'option';
+                    } else {
+                        this.state = 'data';
+                    }
+                    break;
+                case 'option':
+                    this.handleNegotiation(this.command, byte);
+                    this.state = 'data';
+                    break;
+                case 'sb':
+                    if (byte === IAC) {
+                        this.state = 'sb-iac';
+                    } else {
+                        this.subnegotiation.push(byte);
+                    }
+                    break;
+                case 'sb-iac':
+                    if (byte === SE) {
+                        this.handleSubnegotiation(this.subnegotiation);
+                        this.state = 'data';
+                    } else {
+                        this.subnegotiation.push(byte);
+                        this.state = 'sb';
+                    }
+                    break;
+            }
+        }
+
+        if (data.length > 0) {
+            this.dataEmitter.fire(Buffer.from(data));
+        }
+    }
+
+    /**
+     * Escapa bytes 0xFF (IAC) dos dados enviados à porta serial
+     */
+    protected encode(data: Buffer): Buffer {
+        if (!data.includes(IAC)) {
+            return data;
+        }
+
+        const escaped: number[] = [];
+        for (const byte of data) {
+            escaped.push(byte);
+            if (byte === IAC) {
+                escaped.push(IAC);
+            }
+        }
+        return Buffer.from(escaped);
+    }
+
+    /**
+     * Recusa opções não solicitadas; as desejadas já foram pedidas na abertura
+     */
+    private handleNegotiation(command: number, option: number): void {
+        const accepted = [OPTION_BINARY, OPTION_SGA, OPTION_COM_PORT, OPTION_ECHO];
+        if (accepted.includes(option)) {
+            return;
+        }
+        if (command === DO) {
+            this.send(Buffer.from([IAC, WONT, option])).catch(() => undefined);
+        } else if (command === WILL) {
+            this.send(Buffer.from([IAC, DONT, option])).catch(() => undefined);
+        }
+    }
+
+    private handleSubnegotiation(payload: number[]): void {
+        if (payload[0] !== OPTION_COM_PORT) {
+            return;
+        }
+        if (payload[1] === SET_BAUDRATE + SERVER_OFFSET && this.baudRateAck) {
+            this.baudRateAck();
+            this.baudRateAck = undefined;
+        }
+    }
+
+    private sendComPort(subcommand: number, value: number[]): Promise<void> {
+        const escaped = [...this.encode(Buffer.from(value))];
+        return this.send(Buffer.from([IAC, SB, OPTION_COM_PORT, subcommand, ...escaped, IAC, SE]));
+    }
+}
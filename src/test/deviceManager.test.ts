@@ -0,0 +1,182 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DeviceManager } from '../deviceManager';
+import { FakeDeviceRule, FakeTransport } from '../fakeTransport';
+import { createTransport } from '../transport';
+
+/** Gravações usadas como regressão (os .mpsession não passam pelo tsc) */
+const FIXTURES = path.resolve(__dirname, '../../src/test/fixtures');
+
+/**
+ * Contexto mínimo: estado global em memória e armazenamento em uma pasta temporária
+ */
+function createContext(storage: string): vscode.ExtensionContext {
+    const values = new Map<string, unknown>();
+    const globalState = {
+        keys: () => Array.from(values.keys()),
+        get: <T>(key: string, defaultValue?: T) => (values.has(key) ? values.get(key) : defaultValue) as T,
+        update: async (key: string, value: unknown) => {
+            values.set(key, value);
+        },
+        setKeysForSync: () => undefined
+    };
+    return { globalState, globalStorageUri: vscode.Uri.file(storage) } as unknown as vscode.ExtensionContext;
+}
+
+suite('DeviceManager com fake://', () => {
+    let storage: string;
+    let manager: DeviceManager;
+    let transport: FakeTransport;
+    let rules: FakeDeviceRule[];
+
+    setup(() => {
+        storage = fs.mkdtempSync(path.join(os.tmpdir(), 'micropython-test-'));
+        rules = [];
+        manager = new DeviceManager(createContext(storage), address => {
+            transport = new FakeTransport(address, { rules });
+            return transport;
+        });
+    });
+
+    teardown(async () => {
+        await manager.disconnectAll();
+        manager.dispose();
+        fs.rmSync(storage, { recursive: true, force: true });
+    });
+
+    async function connect(): Promise<string> {
+        const device = await manager.connectDevice('fake://esp32');
+        assert.ok(device, 'conexão com a placa simulada falhou');
+        return device.id;
+    }
+
+    test('conecta e detecta o MicroPython', async () => {
+        const device = await manager.connectDevice('fake://esp32');
+
+        assert.ok(device);
+        assert.strictEqual(device.isConnected, true);
+        assert.match(device.micropythonVersion || '', /1\.22\.0/);
+        assert.deepStrictEqual(manager.getConnectedDevices().map(connected => connected.id), [device.id]);
+    });
+
+    test('fecha o transporte quando a conexão falha depois de abrir', async () => {
+        const opened: FakeTransport[] = [];
+        const failing = new DeviceManager(createContext(storage), address => {
+            const fake = new FakeTransport(address);
+            // Falha depois de abrir a porta e detectar o MicroPython
+            Object.defineProperty(fake, 'deviceName', { get: () => { throw new Error('falha simulada'); } });
+            opened.push(fake);
+            return fake;
+        });
+
+        try {
+            assert.strictEqual(await failing.connectDevice('fake://esp32'), null);
+            assert.strictEqual(opened.length, 1);
+            assert.strictEqual(opened[0].isOpen, false);
+            assert.strictEqual(failing.getOutputChannel('esp32_fake___esp32'), undefined);
+        } finally {
+            failing.dispose();
+        }
+    });
+
+    test('envia binário em blocos e confere o SHA-256', async () => {
+        const deviceId = await connect();
+        // Maior que um bloco de transferência e com bytes que não são UTF-8 válido
+        const content = Buffer.from(Array.from({ length: 1500 }, (_, index) => (index * 7) % 256));
+        const localPath = path.join(storage, 'sensor.mpy');
+        fs.writeFileSync(localPath, content);
+
+        await manager.uploadFile(deviceId, localPath, 'lib/sensor.mpy');
+
+        assert.deepStrictEqual(transport.device.files.get('/lib/sensor.mpy'), content);
+    });
+
+    test('rejeita upload com SHA-256 divergente', async () => {
+        rules.push({
+            pattern: /_mpm_size = os\.stat\(("[^"\n]*")\)\[6\]/,
+            respond: (match, device) => `${device.files.get(JSON.parse(match[1]))?.length} ${'0'.repeat(64)}\n`
+        });
+        const deviceId = await connect();
+        const localPath = path.join(storage, 'main.py');
+        fs.writeFileSync(localPath, 'print("oi")\n');
+
+        await assert.rejects(manager.uploadFile(deviceId, localPath, 'main.py'), /SHA-256/);
+    });
+
+    test('lista a estrutura de arquivos', async () => {
+        const deviceId = await connect();
+        transport.device.writeFile('/lib/sensor.py', Buffer.from('x = 1\n'));
+
+        const root = await manager.getFileStructure(deviceId, '/');
+        const lib = await manager.getFileStructure(deviceId, '/lib');
+
+        assert.deepStrictEqual(root.map(file => [file.name, file.isDirectory]), [
+            ['boot.py', false],
+            ['lib', true],
+            ['main.py', false]
+        ]);
+        assert.deepStrictEqual(lib.map(file => [file.path, file.size]), [['/lib/sensor.py', 6]]);
+    });
+
+    test('executa código com stdout e stderr separados', async () => {
+        rules.push({
+            pattern: /^raise ValueError\('(.*)'\)$/,
+            respond: match => ({ stderr: `Traceback (most recent call last):\nValueError: ${match[1]}\n` })
+        });
+        const deviceId = await connect();
+
+        const result = await manager.executeCommand(deviceId, 'print(6*7)');
+        const failure = await manager.executeCommand(deviceId, "raise ValueError('sensor')");
+
+        assert.strictEqual(result.stdout.trim(), '42');
+        assert.strictEqual(result.exception, false);
+        assert.strictEqual(failure.exception, true);
+        assert.match(failure.stderr, /ValueError: sensor/);
+    });
+
+    test('cancelamento interrompe o código e libera a fila', async () => {
+        const deviceId = await connect();
+        const cancellation = new vscode.CancellationTokenSource();
+
+        const running = manager.executeCommand(deviceId, 'while True:\n    pass', 10000, cancellation.token);
+        setTimeout(() => cancellation.cancel(), 100);
+
+        await assert.rejects(running, (error: unknown) => error instanceof vscode.CancellationError);
+        const next = await manager.executeCommand(deviceId, 'print(1+1)');
+        assert.strictEqual(next.stdout.trim(), '2');
+        cancellation.dispose();
+    });
+});
+
+suite('DeviceManager com replay://', () => {
+    let storage: string;
+    let manager: DeviceManager;
+
+    setup(() => {
+        storage = fs.mkdtempSync(path.join(os.tmpdir(), 'micropython-test-'));
+        manager = new DeviceManager(createContext(storage), createTransport);
+    });
+
+    teardown(async () => {
+        await manager.disconnectAll();
+        manager.dispose();
+        fs.rmSync(storage, { recursive: true, force: true });
+    });
+
+    // Gravada com `connectDevice('fake://esp32', undefined, { recordPath })` seguido de
+    // `getFileStructure('/')` e `downloadFile('/main.py')`
+    test('reproduz listagem e download gravados', async () => {
+        const device = await manager.connectDevice(`replay://${path.join(FIXTURES, 'listing.mpsession')}`);
+        assert.ok(device, 'reprodução da gravação falhou');
+
+        const files = await manager.getFileStructure(device.id, '/');
+        const localPath = path.join(storage, 'main.py');
+        await manager.downloadFile(device.id, '/main.py', localPath);
+
+        assert.deepStrictEqual(files.map(file => file.path), ['/boot.py', '/lib', '/main.py']);
+        assert.strictEqual(fs.readFileSync(localPath, 'utf8'), 'print("Hello from fake device")\n');
+    });
+});
@@ -0,0 +1,291 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { DeviceManager } from './deviceManager';
+import { DeviceTrafficEvent } from './types';
+
+/** Bytes por linha do dump hexadecimal */
+const HEX_LINE_WIDTH = 16;
+/** Intervalo para agrupar blocos antes de enviá-los ao webview */
+const POST_INTERVAL_MS = 100;
+/** Blocos mantidos no webview (os mais antigos são descartados) */
+const MAX_CHUNKS = 5000;
+
+/**
+ * Linha de um dump: bytes em hexadecimal e a mesma faixa em ASCII imprimível
+ */
+export interface HexDumpLine {
+    offset: number;
+    hex: string;
+    ascii: string;
+}
+
+/**
+ * Divide os bytes em linhas de `width` bytes; bytes fora de 0x20-0x7e aparecem como "." no ASCII
+ *
+ * Exemplo: `\r\x01` → `{ offset: 0, hex: "0d 01", ascii: ".." }`
+ */
+export function hexDump(data: Buffer, width: number = HEX_LINE_WIDTH): HexDumpLine[] {
+    const lines: HexDumpLine[] = [];
+    for (let offset = 0; offset < data.length; offset += width) {
+        const bytes = Array.from(data.subarray(offset, offset + width));
+        lines.push({
+            offset,
+            hex: bytes.map(byte => byte.toString(16).padStart(2, '0')).join(' '),
+            ascii: bytes.map(byte => byte >= 0x20 && byte <= 0x7e ? String.fromCharCode(byte) : '.').join('')
+        });
+    }
+    return lines;
+}
+
+/**
+ * Inspetor de tráfego: cada bloco TX/RX da conexão com horário, hexadecimal e ASCII
+ *
+ * Problema: Caracteres de controle (`\x01`, `\x04`) e o eco somem no canal de saída; quando o
+ *           protocolo falha não dá para ver quais bytes passaram pelo fio
+ * Solução: Assina `onDidTransferData` (escritas e leituras do transporte no `DeviceManager`) e
+ *          mostra os blocos em um webview por dispositivo, com filtro por sentido e texto e pausa
+ * Exemplo: Entrar no raw REPL aparece como `TX 0d 01` seguido de `RX ... raw REPL; CTRL-B to exit`
+ */
+export class TrafficInspector implements vscode.Disposable {
+    private panels: Map<string, vscode.WebviewPanel> = new Map();
+    // Blocos aguardando o próximo envio ao webview
+    private pending: Map<string, DeviceTrafficEvent[]> = new Map();
+    private timers: Map<string, NodeJS.Timeout> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private deviceManager: DeviceManager) {
+        this.disposables.push(
+            deviceManager.onDidTransferData(event => this.handleTraffic(event)),
+            deviceManager.onDidDisconnect(device => this.panels.get(device.id)?.dispose())
+        );
+    }
+
+    /**
+     * Abre o inspetor do dispositivo; a captura começa com o painel aberto
+     */
+    show(deviceId: string): void {
+        const device = this.deviceManager.getDevice(deviceId);
+        if (!device) {
+            throw new Error('Dispositivo não conectado');
+        }
+
+        const existing = this.panels.get(deviceId);
+        if (existing) {
+            existing.reveal();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'micropython-traffic',
+            `Tráfego: ${device.name}`,
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        panel.webview.html = this.getHtml(panel.webview);
+        panel.onDidDispose(() => {
+            this.panels.delete(deviceId);
+            this.pending.delete(deviceId);
+            const timer = this.timers.get(deviceId);
+            if (timer) {
+                clearTimeout(timer);
+                this.timers.delete(deviceId);
+            }
+        });
+        this.panels.set(deviceId, panel);
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.panels.forEach(panel => panel.dispose());
+        this.panels.clear();
+    }
+
+    private handleTraffic(event: DeviceTrafficEvent): void {
+        if (!this.panels.has(event.deviceId)) {
+            return;
+        }
+
+        const pending = this.pending.get(event.deviceId) || [];
+        pending.push(event);
+        this.pending.set(event.deviceId, pending);
+
+        if (!this.timers.has(event.deviceId)) {
+            this.timers.set(event.deviceId, setTimeout(() => this.post(event.deviceId), POST_INTERVAL_MS));
+        }
+    }
+
+    /**
+     * Envia os blocos acumulados de uma vez (a saída de um `ls` chega em dezenas de blocos)
+     */
+    private post(deviceId: string): void {
+        this.timers.delete(deviceId);
+        const events = this.pending.get(deviceId) || [];
+        this.pending.delete(deviceId);
+
+        this.panels.get(deviceId)?.webview.postMessage({
+            command: 'chunks',
+            chunks: events.map(event => ({
+                time: event.time.getTime(),
+                direction: event.direction,
+                length: event.data.length,
+                lines: hexDump(event.data)
+            }))
+        });
+    }
+
+    private getHtml(webview: vscode.Webview): string {
+        const nonce = crypto.randomBytes(16).toString('hex');
+
+        return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px; }
+    #toolbar { position: sticky; top: 0; display: flex; gap: 8px; align-items: center; padding: 8px 0; background: var(--vscode-editor-background); flex-wrap: wrap; }
+    button, select, input { color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); padding: 3px 8px; }
+    button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; cursor: pointer; }
+    #status { color: var(--vscode-descriptionForeground); margin-left: auto; }
+    table { border-collapse: collapse; font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); }
+    th { text-align: left; font-weight: normal; color: var(--vscode-descriptionForeground); padding: 2px 16px 2px 0; }
+    td { vertical-align: top; padding: 2px 16px 2px 0; white-space: pre; }
+    tr { border-bottom: 1px solid var(--vscode-widget-border, transparent); }
+    .TX .dir { color: var(--vscode-charts-blue); }
+    .RX .dir { color: var(--vscode-charts-green); }
+    .muted { color: var(--vscode-descriptionForeground); }
+</style>
+</head>
+<body>
+<div id="toolbar">
+    <button id="pause">Pausar</button>
+    <select id="direction">
+        <option value="">TX e RX</option>
+        <option value="TX">Só TX</option>
+        <option value="RX">Só RX</option>
+    </select>
+    <input id="filter" placeholder="Filtrar (texto ou hex, ex.: 04)">
+    <label><input type="checkbox" id="scroll" checked> Rolar automaticamente</label>
+    <button id="clear">Limpar</button>
+    <span id="status">Aguardando tráfego...</span>
+</div>
+<table>
+    <thead><tr><th>Hora</th><th>Sentido</th><th>Bytes</th><th>Hex</th><th>ASCII</th></tr></thead>
+    <tbody id="rows"></tbody>
+</table>
+<script nonce="${nonce}">
+    const MAX_CHUNKS = ${MAX_CHUNKS};
+    const rows = document.getElementById('rows');
+    const status = document.getElementById('status');
+    const chunks = [];
+    let paused = false;
+    let held = [];
+    let totals = { TX: 0, RX: 0 };
+
+    function formatTime(time) {
+        const date = new Date(time);
+        return date.toLocaleTimeString() + '.' + String(date.getMilliseconds()).padStart(3, '0');
+    }
+
+    function matches(chunk) {
+        const direction = document.getElementById('direction').value;
+        const query = document.getElementById('filter').value.trim().toLowerCase();
+        if (direction && chunk.direction !== direction) {
+            return false;
+        }
+        if (!query) {
+            return true;
+        }
+        const hex = chunk.lines.map(line => line.hex).join(' ');
+        const ascii = chunk.lines.map(line => line.ascii).join('').toLowerCase();
+        return ascii.includes(query) || hex.includes(query.replace(/0x/g, ''));
+    }
+
+    function createRow(chunk) {
+        const row = document.createElement('tr');
+        row.className = chunk.direction;
+        const cells = [
+            formatTime(chunk.time),
+            chunk.direction,
+            String(chunk.length),
+            chunk.lines.map(line => line.hex).join('\\n'),
+            chunk.lines.map(line => line.ascii).join('\\n')
+        ];
+        cells.forEach((text, index) => {
+            const cell = document.createElement('td');
+            cell.textContent = text;
+            cell.className = ['muted', 'dir', 'muted', '', ''][index];
+            row.append(cell);
+        });
+        return row;
+    }
+
+    function updateStatus() {
+        status.textContent = 'TX ' + totals.TX + ' B · RX ' + totals.RX + ' B · ' + chunks.length + ' blocos' +
+            (paused ? ' · pausado (' + held.length + ' aguardando)' : '');
+    }
+
+    function append(newChunks) {
+        for (const chunk of newChunks) {
+            chunk.visible = matches(chunk);
+            chunks.push(chunk);
+            if (chunk.visible) {
+                rows.append(createRow(chunk));
+            }
+        }
+        // Mantém só os blocos mais recentes: remove as linhas dos descartados sem redesenhar a tabela
+        while (chunks.length > MAX_CHUNKS) {
+            if (chunks.shift().visible) {
+                rows.firstChild.remove();
+            }
+        }
+        if (document.getElementById('scroll').checked) {
+            window.scrollTo(0, document.body.scrollHeight);
+        }
+    }
+
+    function render() {
+        chunks.forEach(chunk => chunk.visible = matches(chunk));
+        rows.replaceChildren(...chunks.filter(chunk => chunk.visible).map(createRow));
+        updateStatus();
+    }
+
+    window.addEventListener('message', event => {
+        if (event.data.command !== 'chunks') {
+            return;
+        }
+        event.data.chunks.forEach(chunk => totals[chunk.direction] += chunk.length);
+        if (paused) {
+            // Só os mais recentes: ao continuar, mais que MAX_CHUNKS seriam descartados de qualquer forma
+            held.push(...event.data.chunks);
+            if (held.length > MAX_CHUNKS) {
+                held.splice(0, held.length - MAX_CHUNKS);
+            }
+        } else {
+            append(event.data.chunks);
+        }
+        updateStatus();
+    });
+
+    document.getElementById('pause').addEventListener('click', event => {
+        paused = !paused;
+        event.target.textContent = paused ? 'Continuar' : 'Pausar';
+        if (!paused) {
+            append(held);
+            held = [];
+        }
+        updateStatus();
+    });
+    document.getElementById('direction').addEventListener('change', render);
+    document.getElementById('filter').addEventListener('input', render);
+    document.getElementById('clear').addEventListener('click', () => {
+        chunks.length = 0;
+        held = [];
+        totals = { TX: 0, RX: 0 };
+        render();
+    });
+</script>
+</body>
+</html>`;
+    }
+}
@@ -0,0 +1,204 @@
+import * as vscode from 'vscode';
+import { SerialPort } from 'serialport';
+import { FakeTransport } from './fakeTransport';
+import { UnixPortTransport } from './unixPortTransport';
+import { WebReplTransport } from './webReplTransport';
+import { Rfc2217Transport, TcpTransport } from './tcpTransport';
+import { RecordingTransport, ReplayTransport } from './replayTransport';
+
+/**
+ * Sinais de controle de linha (usados para reset de placas ESP32)
+ */
+export interface TransportSignals {
+    dtr?: boolean;
+    rts?: boolean;
+}
+
+/**
+ * Opções extras usadas por transportes de rede
+ */
+export interface TransportOptions {
+    /** Senha do WebREPL */
+    password?: string;
+    /** Tempo máximo para abrir conexões de rede (ms) */
+    timeoutMs?: number;
+    /** Executável do MicroPython unix port */
+    unixPortPath?: string;
+    /** Arquivo onde todo o tráfego é gravado, para reprodução com `replay://` */
+    recordPath?: string;
+}
+
+/**
+ * Canal de bytes entre a extensão e um dispositivo MicroPython
+ *
+ * Problema: DeviceManager criava SerialPort diretamente, impedindo rodar sua lógica sem placa física
+ * Solução: Interface mínima de transporte; serial é apenas uma das implementações
+ * Exemplo: `createTransport('fake://esp32', 115200)` devolve um dispositivo simulado em memória
+ */
+export interface Transport {
+    /** Descrição legível do destino (porta serial, URL...) */
+    readonly description: string;
+    /** Nome sugerido para o dispositivo na árvore (opcional) */
+    readonly deviceName?: string;
+    readonly isOpen: boolean;
+    /** `setSignals` controla linhas DTR/RTS reais (permite reset por hardware) */
+    readonly hasControlLines?: boolean;
+
+    /** Bytes recebidos do dispositivo */
+    readonly onData: vscode.Event<Buffer>;
+    /** Erros de comunicação após a abertura */
+    readonly onError: vscode.Event<Error>;
+
+    open(): Promise<void>;
+    write(data: string | Buffer): Promise<void>;
+    close(): Promise<void>;
+    setSignals(signals: TransportSignals): Promise<void>;
+
+    /** Transferência de arquivos nativa do transporte (ex.: protocolo binário do WebREPL) */
+    putFile?(remotePath: string, content: Buffer): Promise<void>;
+    getFile?(remotePath: string): Promise<Buffer>;
+}
+
+/**
+ * Transporte padrão sobre porta serial local
+ */
+export class SerialTransport implements Transport {
+    private serialPort: SerialPort;
+    private dataEmitter = new vscode.EventEmitter<Buffer>();
+    private errorEmitter = new vscode.EventEmitter<Error>();
+
+    readonly onData = this.dataEmitter.event;
+    readonly onError = this.errorEmitter.event;
+    readonly hasControlLines = true;
+
+    constructor(private portPath: string, baudRate: number) {
+        this.serialPort = new SerialPort({
+            path: portPath,
+            baudRate: baudRate,
+            dataBits: 8,
+            stopBits: 1,
+            parity: 'none',
+            autoOpen: false
+        });
+
+        this.serialPort.on('data', (chunk: Buffer) => this.dataEmitter.fire(chunk));
+        this.serialPort.on('error', (err: Error) => this.errorEmitter.fire(err));
+        this.serialPort.on('close', (err?: Error & { disconnected?: boolean }) => {
+            // Cabo removido: a porta fecha sozinha e sinaliza `disconnected`
+            if (err && err.disconnected) {
+                this.errorEmitter.fire(err);
+            }
+        });
+    }
+
+    get description(): string {
+        return this.portPath;
+    }
+
+    get isOpen(): boolean {
+        return this.serialPort.isOpen;
+    }
+
+    open(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.serialPort.open((err) => {
+                if (err) {
+                    reject(err);
+                } else {
+                    resolve();
+                }
+            });
+        });
+    }
+
+    write(data: string | Buffer): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.serialPort.write(data, (err) => {
+                if (err) {
+                    reject(err);
+                }
+            });
+            this.serialPort.drain((err) => {
+                if (err) {
+                    reject(err);
+                } else {
+                    resolve();
+                }
+            });
+        });
+    }
+
+    close(): Promise<void> {
+        return new Promise((resolve) => {
+            if (!this.serialPort.isOpen) {
+                resolve();
+                return;
+            }
+            this.serialPort.close(() => resolve());
+        });
+    }
+
+    setSignals(signals: TransportSignals): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.serialPort.set(signals, (err) => {
+                if (err) {
+                    reject(err);
+                } else {
+                    resolve();
+                }
+            });
+        });
+    }
+}
+
+/**
+ * Cria o transporte adequado para o endereço informado
+ *
+ * - `fake://<nome>`: dispositivo simulado em memória
+ * - `unix://<diretório>`: MicroPython unix port local, com o diretório como raiz
+ * - `ws://<host>:<porta>` ou `wss://...`: WebREPL, autenticado com `options.password`
+ * - `tcp://<host>:<porta>`: serial remota em TCP bruto (ex.: ser2net)
+ * - `rfc2217://<host>:<porta>`: serial remota com baudrate e DTR/RTS controlados pela extensão
+ * - `replay://<arquivo>`: reprodução de uma sessão gravada com `options.recordPath`
+ * - qualquer outro valor: porta serial local (ex.: /dev/ttyUSB0, COM3)
+ *
+ * Com `options.recordPath`, o transporte criado é envolvido por um `RecordingTransport`.
+ */
+export function createTransport(portPath: string, baudRate: number, options?: TransportOptions): Transport {
+    const transport = createBaseTransport(portPath, baudRate, options);
+    return options?.recordPath ? new RecordingTransport(transport, options.recordPath) : transport;
+}
+
+function createBaseTransport(portPath: string, baudRate: number, options?: TransportOptions): Transport {
+    if (portPath.startsWith('fake://')) {
+        return new FakeTransport(portPath);
+    }
+    if (portPath.startsWith('replay://')) {
+        return new ReplayTransport(portPath.substring('replay://'.length));
+    }
+    if (portPath.startsWith('unix://')) {
+        return new UnixPortTransport(options?.unixPortPath || 'micropython', portPath.substring('unix://'.length));
+    }
+    if (portPath.startsWith('ws://') || portPath.startsWith('wss://')) {
+        return new WebReplTransport(portPath, options?.password, options?.timeoutMs);
+    }
+    if (portPath.startsWith('tcp://') || portPath.startsWith('rfc2217://')) {
+        const url = new URL(portPath);
+        const port = Number(url.port);
+        if (!url.hostname || !port) {
+            throw new Error(`Endereço inválido (use ${url.protocol}//host:porta): ${portPath}`);
+        }
+        return url.protocol === 'tcp:'
+            ? new TcpTransport(url.hostname, port, options?.timeoutMs)
+            : new Rfc2217Transport(url.hostname, port, baudRate, options?.timeoutMs);
+    }
+    return new SerialTransport(portPath, baudRate);
+}
+
+/**
+ * Indica se o baudrate se aplica ao endereço (porta serial local ou remota via RFC 2217)
+ */
+export function usesBaudRate(portPath: string): boolean {
+    const isUrl = /^[a-z][a-z0-9+.-]*:\/\//i.test(portPath);
+    return !isUrl || portPath.startsWith('rfc2217://');
+}
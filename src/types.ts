@@ -18,8 +18,122 @@ export interface ESP32Device {
     port: string;
     baudRate: number;
     isConnected: boolean;
+    /** Estado atual da conexão */
+    status: DeviceStatus;
     micropythonVersion?: string;
     lastActivity: Date;
+    /** Identificação USB da placa, usada para reencontrá-la após replug */
+    serialNumber?: string;
+    vendorId?: string;
+    productId?: string;
+    /** Chave do perfil persistido (ver DeviceProfile) */
+    profileKey?: string;
+    /** Última leitura de memória do heap (bytes) */
+    memoryFree?: number;
+    memoryTotal?: number;
+    /** Última leitura de `DeviceManager.getDeviceInfo` */
+    info?: DeviceInfo;
+}
+
+/**
+ * Informações de hardware e firmware lidas do dispositivo
+ *
+ * Campos opcionais dependem do port (ex.: `esp.flash_size()` só existe nos ESP).
+ */
+export interface DeviceInfo {
+    /** `sys.implementation` */
+    implementation: {
+        name: string;
+        version: string;
+        /** Descrição da placa e do chip (`_machine`) */
+        machine?: string;
+        /** Versão do formato .mpy aceito (`_mpy`) */
+        mpy?: number;
+    };
+    /** `os.uname().machine` e `os.uname().release` */
+    machine?: string;
+    release?: string;
+    /** `machine.unique_id()` em hexadecimal */
+    uniqueId?: string;
+    /** Frequência da CPU (Hz) */
+    cpuFrequency?: number;
+    /** Tamanho da flash (bytes) */
+    flashSize?: number;
+    /** Sistema de arquivos montado em "/" (`os.statvfs`), em bytes */
+    filesystem?: { total: number; free: number };
+    /** Heap após coleta de lixo (bytes) */
+    memory: { free: number; allocated: number };
+    /** `time.ticks_ms()`: tempo desde o boot (volta a zero após ~12 dias) */
+    uptimeMs?: number;
+    /** Momento da leitura */
+    readAt: Date;
+}
+
+/**
+ * Amostra do heap lida pelo monitor de memória (após `gc.collect()`)
+ */
+export interface HeapSample {
+    /** Momento da leitura (ms desde a época) */
+    time: number;
+    free: number;
+    allocated: number;
+    /** Maior bloco livre contíguo (`micropython.mem_info()`), em bytes */
+    largestFree?: number;
+    /** 0 = memória livre contígua; perto de 1 = muito fragmentada */
+    fragmentation?: number;
+}
+
+/**
+ * Perfil persistido de uma placa, independente da porta em que aparece
+ */
+export interface DeviceProfile {
+    /** `usb:<número de série>` ou `uid:<machine.unique_id()>` */
+    key: string;
+    name: string;
+    /** Baudrate preferido, tentado antes dos padrões */
+    baudRate?: number;
+    boardType?: string;
+    notes?: string;
+    /** Pasta do dispositivo usada quando o upload não informa destino */
+    remoteFolder?: string;
+    /** Último endereço em que a placa foi vista */
+    port: string;
+    serialNumber?: string;
+    uniqueId?: string;
+    /** Data ISO da última conexão */
+    lastSeen?: string;
+}
+
+/**
+ * Alteração no sistema de arquivos de um dispositivo
+ */
+export interface DeviceFilesChangeEvent {
+    deviceId: string;
+    /** Diretório cujo conteúdo mudou */
+    path: string;
+}
+
+/**
+ * Linha de texto recebida do dispositivo fora do modo raw
+ */
+export interface DeviceLineEvent {
+    deviceId: string;
+    line: string;
+}
+
+/**
+ * Sentido dos dados na conexão: enviados ao dispositivo (TX) ou recebidos dele (RX)
+ */
+export type TrafficDirection = 'TX' | 'RX';
+
+/**
+ * Bloco de bytes trafegado na conexão de um dispositivo, como passou pelo transporte
+ */
+export interface DeviceTrafficEvent {
+    deviceId: string;
+    direction: TrafficDirection;
+    data: Buffer;
+    time: Date;
 }
 
 export interface MicroPythonREPL {
@@ -28,6 +142,23 @@ export interface MicroPythonREPL {
     isActive: boolean;
 }
 
+/**
+ * Resultado de um comando executado no raw REPL
+ */
+export interface CommandResult {
+    stdout: string;
+    stderr: string;
+    exception: boolean;
+}
+
+/**
+ * Trecho de saída recebido durante a execução de um comando
+ */
+export interface CommandOutputChunk {
+    stream: 'stdout' | 'stderr';
+    text: string;
+}
+
 export interface ConnectionOptions {
     path: string;
     baudRate: number;
@@ -56,6 +187,8 @@ export interface ESP32File {
 export interface DeviceTreeItem {
     device?: ESP32Device;
     file?: ESP32File;
+    /** Placa conhecida mas não conectada */
+    profile?: DeviceProfile;
     status?: DeviceStatus;
-    type: 'device' | 'file' | 'directory';
+    type: 'device' | 'file' | 'directory' | 'profile';
 }
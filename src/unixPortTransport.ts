@@ -0,0 +1,231 @@
+import * as vscode from 'vscode';
+import { ChildProcessWithoutNullStreams, spawn } from 'child_process';
+import { Transport, TransportSignals } from './transport';
+
+/**
+ * Ponte executada dentro do MicroPython unix port
+ *
+ * O REPL do unix port não oferece o modo raw quando stdin não é um terminal, então
+ * esta ponte implementa o REPL amigável e o raw REPL sobre stdin/stdout, com o
+ * diretório temporário montado como raiz do sistema de arquivos.
+ */
+const BRIDGE_SOURCE = `
+import sys, os
+try:
+    os.umount('/')
+except OSError:
+    pass
+os.mount(os.VfsPosix(_ROOT), '/')
+os.chdir('/')
+sys.path.append('/lib')
+_in = sys.stdin.buffer
+_out = sys.stdout.buffer
+_banner = b'MicroPython ' + sys.version.split(' ')[-1].encode() + b' on unix; local virtual device\\r\\n'
+_g = {'__name__': '__main__'}
+
+def _rd():
+    while True:
+        try:
+            c = _in.read(1)
+        except KeyboardInterrupt:
+            continue
+        if not c:
+            sys.exit()
+        return c[0]
+
+def _reset():
+    _g.clear()
+    _g['__name__'] = '__main__'
+    _out.write(b'MPY: soft reboot\\r\\n' + _banner + b'>>> ')
+
+def _raw():
+    _out.write(b'raw REPL; CTRL-B to exit\\r\\n>')
+    buf = bytearray()
+    while True:
+        b = _rd()
+        if b == 1:
+            buf = bytearray()
+            _out.write(b'raw REPL; CTRL-B to exit\\r\\n>')
+        elif b == 2:
+            _out.write(b'\\r\\n' + _banner + b'>>> ')
+            return
+        elif b == 3:
+            buf = bytearray()
+        elif b == 4:
+            if not buf:
+                _out.write(b'\\r\\n')
+                _reset()
+                return
+            _out.write(b'OK')
+            try:
+                exec(bytes(buf).decode(), _g)
+                _out.write(b'\\x04')
+            except BaseException as e:
+                _out.write(b'\\x04')
+                sys.print_exception(e)
+            _out.write(b'\\x04>')
+            buf = bytearray()
+        elif b == 5 and not buf:
+            if _in.read(2) == b'A\\x01':
+                _out.write(b'R\\x00')
+        else:
+            buf.append(b)
+
+def _line(src):
+    try:
+        exec(compile(src, '<stdin>', 'single'), _g)
+    except BaseException as e:
+        sys.print_exception(e)
+
+def _friendly():
+    line = bytearray()
+    while True:
+        b = _rd()
+        if b == 1:
+            line = bytearray()
+            _raw()
+        elif b == 3:
+            line = bytearray()
+            _out.write(b'\\r\\n>>> ')
+        elif b == 4:
+            line = bytearray()
+            _reset()
+        elif b == 13:
+            _out.write(b'\\r\\n')
+            if line:
+                _line(bytes(line).decode())
+            line = bytearray()
+            _out.write(b'>>> ')
+        elif b in (8, 127):
+            if line:
+                line = line[:-1]
+                _out.write(b'\\x08 \\x08')
+        elif b >= 32:
+            line.append(b)
+            _out.write(bytes([b]))
+
+_out.write(_banner + b'>>> ')
+while True:
+    try:
+        _friendly()
+    except KeyboardInterrupt:
+        _out.write(b'\\r\\n>>> ')
+`;
+
+/**
+ * Transporte que usa o MicroPython unix port como dispositivo virtual
+ *
+ * Problema: Testar scripts, arquivos e REPL exigia uma placa conectada
+ * Solução: Executa o binário `micropython` como processo filho e usa stdin/stdout como canal
+ * Exemplo: `unix:///tmp/mpy-vfs` abre um dispositivo cujo "/" é o diretório /tmp/mpy-vfs
+ */
+export class UnixPortTransport implements Transport {
+    private process: ChildProcessWithoutNullStreams | undefined;
+    private dataEmitter = new vscode.EventEmitter<Buffer>();
+    private errorEmitter = new vscode.EventEmitter<Error>();
+    // Último byte de cada saída foi "\r": um "\r\n" pode chegar dividido entre dois blocos
+    private endsWithCarriageReturn: Record<'stdout' | 'stderr', boolean> = { stdout: false, stderr: false };
+
+    readonly onData = this.dataEmitter.event;
+    readonly onError = this.errorEmitter.event;
+
+    /**
+     * @param binaryPath Caminho do executável `micropython`
+     * @param rootPath Diretório do host usado como raiz do sistema de arquivos virtual
+     */
+    constructor(private binaryPath: string, private rootPath: string) {}
+
+    get description(): string {
+        return `unix://${this.rootPath}`;
+    }
+
+    get deviceName(): string {
+        return 'MicroPython local (unix)';
+    }
+
+    get isOpen(): boolean {
+        return this.process !== undefined && this.process.exitCode === null;
+    }
+
+    open(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const source = `_ROOT = ${JSON.stringify(this.rootPath)}\n${BRIDGE_SOURCE}`;
+            const child = spawn(this.binaryPath, ['-c', source], { stdio: 'pipe' });
+            this.endsWithCarriageReturn = { stdout: false, stderr: false };
+
+            child.once('spawn', () => {
+                this.process = child;
+                resolve();
+            });
+            child.once('error', (err) => {
+                if (this.process) {
+                    this.errorEmitter.fire(err);
+                } else {
+                    reject(new Error(`Não foi possível iniciar ${this.binaryPath}: ${err.message}`));
+                }
+            });
+            child.on('exit', (code) => {
+                if (this.process === child) {
+                    this.process = undefined;
+                    this.errorEmitter.fire(new Error(`Processo MicroPython encerrado (código ${code})`));
+                }
+            });
+
+            child.stdout.on('data', (chunk: Buffer) => this.dataEmitter.fire(this.toDeviceNewlines('stdout', chunk)));
+            child.stderr.on('data', (chunk: Buffer) => this.dataEmitter.fire(this.toDeviceNewlines('stderr', chunk)));
+        });
+    }
+
+    write(data: string | Buffer): Promise<void> {
+        const child = this.process;
+        if (!child) {
+            return Promise.reject(new Error('Processo MicroPython não está em execução'));
+        }
+
+        const bytes = Buffer.isBuffer(data) ? data : Buffer.from(data);
+        if (bytes.includes(0x03)) {
+            // Ctrl+C também interrompe código em execução, como na placa real
+            child.kill('SIGINT');
+        }
+
+        return new Promise((resolve, reject) => {
+            child.stdin.write(bytes, (err) => {
+                if (err) {
+                    reject(err);
+                } else {
+                    resolve();
+                }
+            });
+        });
+    }
+
+    async close(): Promise<void> {
+        const child = this.process;
+        this.process = undefined;
+        if (child) {
+            child.stdin.end();
+            child.kill();
+        }
+    }
+
+    async setSignals(_signals: TransportSignals): Promise<void> {
+        // Sem efeito: o processo local não possui linhas de controle
+    }
+
+    /**
+     * Converte "\n" isolado em "\r\n", como o MicroPython faz na UART das placas
+     *
+     * Saída que já usa "\r\n" passa sem mudança, mesmo com o "\r" no fim do bloco anterior.
+     */
+    private toDeviceNewlines(stream: 'stdout' | 'stderr', chunk: Buffer): Buffer {
+        const bytes: number[] = [];
+        for (const byte of chunk) {
+            if (byte === 0x0a && !this.endsWithCarriageReturn[stream]) {
+                bytes.push(0x0d);
+            }
+            bytes.push(byte);
+            this.endsWithCarriageReturn[stream] = byte === 0x0d;
+        }
+        return Buffer.from(bytes);
+    }
+}
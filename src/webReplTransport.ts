@@ -0,0 +1,264 @@
+import * as vscode from 'vscode';
+import { WebSocket } from 'ws';
+import { Transport, TransportSignals } from './transport';
+
+/** Operações do protocolo binário de arquivos do WebREPL */
+const WEBREPL_PUT_FILE = 1;
+const WEBREPL_GET_FILE = 2;
+
+/** Tamanho do registro de requisição ("<2sBBQLH64s") */
+const WEBREPL_REQUEST_SIZE = 82;
+const WEBREPL_MAX_FILENAME = 64;
+
+/** Tamanho dos blocos enviados no upload binário */
+const WEBREPL_CHUNK_SIZE = 1024;
+
+interface PendingBinaryRead {
+    count: number;
+    resolve: (data: Buffer) => void;
+    reject: (reason?: any) => void;
+    timer: NodeJS.Timeout;
+}
+
+/**
+ * Transporte WebREPL (MicroPython sobre WebSocket)
+ *
+ * Problema: Placas instaladas em campo só são alcançáveis via Wi-Fi
+ * Solução: Conecta ao endpoint WebREPL (ws://host:8266), faz o handshake de senha e usa
+ *          frames de texto para o REPL e frames binários para o protocolo de arquivos
+ * Exemplo: `ws://192.168.4.1:8266` aparece na árvore como "WebREPL (192.168.4.1:8266)"
+ */
+export class WebReplTransport implements Transport {
+    private socket: WebSocket | undefined;
+    private dataEmitter = new vscode.EventEmitter<Buffer>();
+    private errorEmitter = new vscode.EventEmitter<Error>();
+    private binaryBuffer: Buffer = Buffer.alloc(0);
+    private pendingBinary: PendingBinaryRead | undefined;
+
+    readonly onData = this.dataEmitter.event;
+    readonly onError = this.errorEmitter.event;
+
+    constructor(private url: string, private password: string = '', private timeoutMs: number = 10000) {}
+
+    get description(): string {
+        return this.url;
+    }
+
+    get deviceName(): string {
+        return `WebREPL (${new URL(this.url).host})`;
+    }
+
+    get isOpen(): boolean {
+        return this.socket !== undefined && this.socket.readyState === WebSocket.OPEN;
+    }
+
+    /**
+     * Abre o WebSocket e conclui o handshake de senha
+     */
+    open(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const socket = new WebSocket(this.url, { handshakeTimeout: this.timeoutMs });
+            let handshake = '';
+            let passwordSent = false;
+            let connected = false;
+
+            const fail = (error: Error) => {
+                clearTimeout(timer);
+                socket.terminate();
+                reject(error);
+            };
+            const timer = setTimeout(() => fail(new Error(`Timeout no handshake WebREPL com ${this.url}`)), this.timeoutMs);
+
+            socket.on('message', (data: Buffer, isBinary: boolean) => {
+                if (isBinary) {
+                    this.handleBinary(data);
+                    return;
+                }
+
+                if (connected) {
+                    this.dataEmitter.fire(data);
+                    return;
+                }
+
+                handshake += data.toString('utf8');
+                if (!passwordSent && handshake.includes('Password:')) {
+                    passwordSent = true;
+                    socket.send(`${this.password}\r`);
+                    handshake = '';
+                } else if (handshake.includes('Access denied')) {
+                    fail(new Error('WebREPL: senha incorreta'));
+                } else if (handshake.includes('WebREPL connected')) {
+                    connected = true;
+                    clearTimeout(timer);
+                    this.socket = socket;
+                    resolve();
+
+                    // Repassa o restante do handshake (ex.: o prompt ">>> ")
+                    const remaining = handshake.substring(handshake.indexOf('WebREPL connected') + 'WebREPL connected'.length);
+                    if (remaining) {
+                        this.dataEmitter.fire(Buffer.from(remaining, 'utf8'));
+                    }
+                }
+            });
+
+            socket.on('error', (err: Error) => {
+                if (connected) {
+                    this.errorEmitter.fire(err);
+                } else {
+                    fail(err);
+                }
+            });
+
+            socket.on('close', () => {
+                if (connected && this.socket === socket) {
+                    this.socket = undefined;
+                    this.rejectPendingBinary(new Error('Conexão WebREPL encerrada'));
+                    this.errorEmitter.fire(new Error('Conexão WebREPL encerrada pelo dispositivo'));
+                } else if (!connected) {
+                    fail(new Error('WebREPL encerrou a conexão durante o handshake'));
+                }
+            });
+        });
+    }
+
+    write(data: string | Buffer): Promise<void> {
+        // Frame de texto com os bytes originais: blocos do raw REPL podem cortar um caractere UTF-8 ao meio
+        return this.send(data, false);
+    }
+
+    async close(): Promise<void> {
+        const socket = this.socket;
+        this.socket = undefined;
+        this.rejectPendingBinary(new Error('Conexão WebREPL encerrada'));
+        socket?.close();
+    }
+
+    async setSignals(_signals: TransportSignals): Promise<void> {
+        // Sem efeito: WebREPL não possui linhas de controle
+    }
+
+    /**
+     * Envia um arquivo pelo protocolo binário do WebREPL
+     */
+    async putFile(remotePath: string, content: Buffer): Promise<void> {
+        await this.send(this.buildRequest(WEBREPL_PUT_FILE, remotePath, content.length), true);
+        await this.expectResponse('abrir arquivo para escrita');
+
+        for (let offset = 0; offset < content.length; offset += WEBREPL_CHUNK_SIZE) {
+            await this.send(content.subarray(offset, offset + WEBREPL_CHUNK_SIZE), true);
+        }
+        await this.expectResponse('concluir escrita');
+    }
+
+    /**
+     * Lê um arquivo pelo protocolo binário do WebREPL
+     */
+    async getFile(remotePath: string): Promise<Buffer> {
+        await this.send(this.buildRequest(WEBREPL_GET_FILE, remotePath, 0), true);
+        await this.expectResponse('abrir arquivo para leitura');
+
+        const chunks: Buffer[] = [];
+        while (true) {
+            // Cada byte nulo pede o próximo bloco, precedido do tamanho (uint16 LE)
+            await this.send(Buffer.from([0]), true);
+            const size = (await this.readBinary(2)).readUInt16LE(0);
+            if (size === 0) {
+                break;
+            }
+            chunks.push(await this.readBinary(size));
+        }
+        await this.expectResponse('concluir leitura');
+
+        return Buffer.concat(chunks);
+    }
+
+    /**
+     * Monta o registro de requisição: "WA", operação, flags, offset, tamanho e nome
+     */
+    private buildRequest(operation: number, remotePath: string, size: number): Buffer {
+        const fileName = Buffer.from(remotePath, 'utf8');
+        if (fileName.length > WEBREPL_MAX_FILENAME) {
+            throw new Error(`Caminho muito longo para o WebREPL (máx. ${WEBREPL_MAX_FILENAME} bytes): ${remotePath}`);
+        }
+
+        const request = Buffer.alloc(WEBREPL_REQUEST_SIZE);
+        request.write('WA', 0, 'latin1');
+        request.writeUInt8(operation, 2);
+        request.writeUInt8(0, 3);
+        request.writeBigUInt64LE(BigInt(0), 4);
+        request.writeUInt32LE(size, 12);
+        request.writeUInt16LE(fileName.length, 16);
+        fileName.copy(request, 18);
+        return request;
+    }
+
+    /**
+     * Lê a resposta "WB" + código de status e falha se não for zero
+     */
+    private async expectResponse(step: string): Promise<void> {
+        const response = await this.readBinary(4);
+        if (response.toString('latin1', 0, 2) !== 'WB') {
+            throw new Error(`WebREPL: resposta inválida ao ${step}`);
+        }
+        const status = response.readUInt16LE(2);
+        if (status !== 0) {
+            throw new Error(`WebREPL: falha ao ${step} (código ${status})`);
+        }
+    }
+
+    private send(data: string | Buffer, binary: boolean): Promise<void> {
+        const socket = this.socket;
+        if (!socket) {
+            return Promise.reject(new Error('Conexão WebREPL não está aberta'));
+        }
+
+        return new Promise((resolve, reject) => {
+            socket.send(data, { binary }, (err) => {
+                if (err) {
+                    reject(err);
+                } else {
+                    resolve();
+                }
+            });
+        });
+    }
+
+    private handleBinary(data: Buffer): void {
+        this.binaryBuffer = Buffer.concat([this.binaryBuffer, data]);
+        this.checkPendingBinary();
+    }
+
+    private readBinary(count: number): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.pendingBinary = undefined;
+                reject(new Error('Timeout aguardando resposta binária do WebREPL'));
+            }, this.timeoutMs);
+
+            this.pendingBinary = { count, resolve, reject, timer };
+            this.checkPendingBinary();
+        });
+    }
+
+    private checkPendingBinary(): void {
+        const pending = this.pendingBinary;
+        if (!pending || this.binaryBuffer.length < pending.count) {
+            return;
+        }
+
+        const data = this.binaryBuffer.subarray(0, pending.count);
+        this.binaryBuffer = this.binaryBuffer.subarray(pending.count);
+        clearTimeout(pending.timer);
+        this.pendingBinary = undefined;
+        pending.resolve(data);
+    }
+
+    private rejectPendingBinary(error: Error): void {
+        if (this.pendingBinary) {
+            clearTimeout(this.pendingBinary.timer);
+            this.pendingBinary.reject(error);
+            this.pendingBinary = undefined;
+        }
+        this.binaryBuffer = Buffer.alloc(0);
+    }
+}